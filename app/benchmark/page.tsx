@@ -0,0 +1,67 @@
+'use client';
+
+/**
+ * Página de Benchmark do renderer
+ *
+ * Responsabilidades:
+ * - Rodar a cena sintética de lib/benchmark.ts (arena 200×120, 20 cobras)
+ *   a 10 ticks por segundo, como o servidor
+ * - Mostrar o tempo de quadro do GameCanvas sobre o canvas
+ *
+ * Para comparar: anote a média com a câmera seguindo e com
+ * "🗺️ Arena inteira" (pior caso: tudo visível).
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { GameCanvas } from '../components/GameCanvas';
+import { useI18n } from '../hooks/useI18n';
+import { BENCHMARK_CONFIG, benchmarkSnakeId, createBenchmarkState } from '../lib/benchmark';
+import { DEFAULT_TICK_MS } from '../lib/interpolation';
+
+export default function Benchmark() {
+  const [tick, setTick] = useState(0);
+  const [running, setRunning] = useState(true);
+  const gameState = useMemo(() => createBenchmarkState(tick), [tick]);
+  const { t } = useI18n();
+
+  /**
+   * Efeito: Avançar a cena a cada tick enquanto rodando
+   */
+  useEffect(() => {
+    if (!running) return;
+
+    const interval = setInterval(() => setTick((current) => current + 1), DEFAULT_TICK_MS);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  return (
+    <div className="w-full h-screen overflow-auto bg-gray-900 flex flex-col items-center gap-4 py-8">
+      <div className="flex items-center gap-4">
+        <h1 className="text-3xl font-bold text-cyan-400">{t('benchmark.title')}</h1>
+        <Link href="/" className="text-sm text-gray-400 hover:text-white">
+          {t('common.backToGame')}
+        </Link>
+      </div>
+
+      <p className="text-gray-400 text-sm">
+        {t('benchmark.scene', {
+          width: BENCHMARK_CONFIG.gameWidth,
+          height: BENCHMARK_CONFIG.gameHeight,
+          snakes: BENCHMARK_CONFIG.snakeCount,
+          fruits: BENCHMARK_CONFIG.fruitCount,
+          tick,
+        })}
+      </p>
+
+      <button
+        onClick={() => setRunning((current) => !current)}
+        className="py-2 px-4 rounded-lg font-bold bg-slate-700 text-white hover:bg-slate-600"
+      >
+        {running ? t('benchmark.pause') : t('benchmark.resume')}
+      </button>
+
+      <GameCanvas gameState={gameState} playerId={benchmarkSnakeId(0)} prediction={false} showFrameTime />
+    </div>
+  );
+}
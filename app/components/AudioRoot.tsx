@@ -0,0 +1,48 @@
+'use client';
+
+/**
+ * Componente AudioRoot - Liga o áudio às configurações e ao primeiro gesto
+ *
+ * Responsabilidades:
+ * - Destravar o áudio (lib/audio.ts) no primeiro clique, toque ou tecla,
+ *   como exigem os navegadores
+ * - Repassar os volumes e o mudo salvos nas configurações
+ *
+ * Não renderiza nada; fica no layout raiz, acima de todas as páginas.
+ */
+
+import { useEffect } from 'react';
+import { audio } from '../lib/audio';
+import { settingsStore } from '../lib/settings';
+import { useStoredValue } from '../lib/storage';
+
+/** Gestos que os navegadores aceitam para liberar o som */
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchend'] as const;
+
+export function AudioRoot() {
+  const { audio: volumes } = useStoredValue(settingsStore);
+
+  /**
+   * Efeito: Aplicar volumes e mudo
+   */
+  useEffect(() => {
+    audio.setVolumes(volumes);
+  }, [volumes]);
+
+  /**
+   * Efeito: Destravar no primeiro gesto; os ouvintes saem quando o
+   * contexto começa a tocar
+   */
+  useEffect(() => {
+    const unlock = () => {
+      audio.unlock();
+      if (audio.unlocked) stop();
+    };
+    const stop = () => UNLOCK_EVENTS.forEach((event) => window.removeEventListener(event, unlock, true));
+
+    UNLOCK_EVENTS.forEach((event) => window.addEventListener(event, unlock, true));
+    return stop;
+  }, []);
+
+  return null;
+}
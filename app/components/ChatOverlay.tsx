@@ -0,0 +1,171 @@
+'use client';
+
+/**
+ * Componente ChatOverlay - Chat compacto durante a partida
+ *
+ * Responsabilidades:
+ * - Mostrar as últimas mensagens por alguns segundos, sem cobrir a arena
+ * - Abrir o campo de texto com Enter (ou pelo botão, no toque) e fechar
+ *   com Esc ou ao enviar
+ * - Enviar emotes pelas teclas 1-9 (ou pelos botões com o chat aberto)
+ *
+ * Teclado:
+ * - Com o campo aberto, letras e números vão para o texto; as setas
+ *   continuam movendo a cobra (ver isTextEntry em lib/input.ts)
+ * - Enter só abre o chat fora de botões, links e campos: com o foco num
+ *   controle, Enter continua ativando o controle
+ * - Teclas numéricas ligadas a uma direção nas configurações não
+ *   disparam emotes
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { useNow } from '../hooks/useNow';
+import type { ChatControls } from '../hooks/useWebSocket';
+import { CHAT_FADE_MS, EMOTES, MAX_CHAT_LENGTH, emoteForKey, senderName } from '../lib/chat';
+import { actionForKey, isInteractiveTarget, isTextEntry } from '../lib/input';
+import { settingsStore } from '../lib/settings';
+import { useStoredValue } from '../lib/storage';
+
+/** Mensagens visíveis com o chat fechado e aberto */
+const CLOSED_LINES = 4;
+const OPEN_LINES = 8;
+
+interface ChatOverlayProps {
+  chat: ChatControls;
+  /** Jogadores da partida (cobras), para os nomes */
+  players: { id: string; name?: string }[];
+}
+
+export function ChatOverlay({ chat, players }: ChatOverlayProps) {
+  const { t } = useI18n();
+  const { keyBindings } = useStoredValue(settingsStore);
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { sendEmote } = chat;
+  const now = useNow(chat.messages.length > 0 || chat.cooldownUntil !== null);
+  const waitSeconds = chat.cooldownUntil !== null ? Math.ceil((chat.cooldownUntil - now) / 1000) : 0;
+
+  const lines = open
+    ? chat.messages.slice(-OPEN_LINES)
+    : chat.messages.filter((message) => now - message.receivedAt < CHAT_FADE_MS).slice(-CLOSED_LINES);
+
+  /**
+   * Efeito: Enter abre o chat; 1-9 enviam emotes
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTextEntry(event.key, event.target)) return;
+
+      if (event.key === 'Enter') {
+        if (open || isInteractiveTarget(event.target)) return;
+        event.preventDefault();
+        setOpen(true);
+        return;
+      }
+
+      const emote = emoteForKey(event.key);
+      if (emote && !actionForKey(keyBindings, event.key)) {
+        event.preventDefault();
+        sendEmote(emote.id);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, keyBindings, sendEmote]);
+
+  /**
+   * Efeito: Levar o foco ao campo ao abrir
+   */
+  useEffect(() => {
+    if (open) inputRef.current?.focus();
+  }, [open]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) {
+      setOpen(false);
+      return;
+    }
+    if (chat.send(text)) {
+      setText('');
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-14 left-4 w-72 z-40 flex flex-col gap-1 text-sm">
+      <ul role="log" aria-live="polite" aria-label={t('chat.title')} className="flex flex-col gap-1">
+        {lines.map((message) => (
+          <li key={message.id} className="bg-gray-900/80 text-gray-100 px-2 py-1 rounded break-words">
+            <span className="font-bold text-yellow-300">{senderName(message, players, t)}:</span> {message.text}
+          </li>
+        ))}
+      </ul>
+
+      {waitSeconds > 0 && (
+        <p className="bg-gray-900/80 text-yellow-300 text-xs px-2 py-1 rounded">
+          {t('chat.cooldown', { seconds: waitSeconds })}
+        </p>
+      )}
+
+      {open ? (
+        <>
+          <div role="group" aria-label={t('chat.emotes')} className="flex gap-1 flex-wrap">
+            {EMOTES.map((emote, index) => (
+              <button
+                key={emote.id}
+                type="button"
+                // Mantém o foco no campo de texto
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => sendEmote(emote.id)}
+                title={t('chat.emoteKey', { emote: t(emote.nameKey), key: index + 1 })}
+                aria-label={t(emote.nameKey)}
+                className="w-7 h-7 rounded bg-gray-900/80 hover:bg-gray-700"
+              >
+                {emote.emoji}
+              </button>
+            ))}
+          </div>
+          <form onSubmit={handleSubmit} className="flex gap-1">
+            <input
+              ref={inputRef}
+              value={text}
+              onChange={(event) => setText(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Escape') setOpen(false);
+              }}
+              maxLength={MAX_CHAT_LENGTH}
+              placeholder={t('chat.placeholder')}
+              aria-label={t('chat.placeholder')}
+              className="flex-1 min-w-0 px-2 py-1 rounded bg-gray-900/90 text-white border border-cyan-500 outline-none"
+            />
+            <button
+              type="button"
+              onClick={() => setOpen(false)}
+              aria-label={t('chat.close')}
+              className="px-2 rounded bg-gray-900/80 text-gray-300 hover:bg-gray-700"
+            >
+              ✕
+            </button>
+          </form>
+        </>
+      ) : (
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setOpen(true)}
+            aria-label={t('chat.open')}
+            className="px-2 py-1 rounded bg-gray-900/80 hover:bg-gray-700"
+          >
+            💬
+          </button>
+          <span className="text-gray-500 text-xs">{t('chat.hint')}</span>
+        </div>
+      )}
+    </div>
+  );
+}
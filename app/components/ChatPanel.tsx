@@ -0,0 +1,89 @@
+'use client';
+
+/**
+ * Componente ChatPanel - Chat da sala no lobby
+ *
+ * Responsabilidades:
+ * - Mostrar o histórico da sala, rolando até a mensagem mais nova
+ * - Enviar mensagens (Enter ou botão), respeitando o limite de envios
+ * - Avisar quanto falta quando o limite bloqueia
+ *
+ * Silenciar um jogador fica na lista de jogadores do Lobby.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { useNow } from '../hooks/useNow';
+import type { ChatControls } from '../hooks/useWebSocket';
+import { MAX_CHAT_LENGTH, senderName } from '../lib/chat';
+import type { LobbyPlayer } from '../lib/protocol';
+
+interface ChatPanelProps {
+  chat: ChatControls;
+  /** Jogadores do lobby, para os nomes */
+  players: LobbyPlayer[];
+  playerId: string | null;
+}
+
+export function ChatPanel({ chat, players, playerId }: ChatPanelProps) {
+  const { t } = useI18n();
+  const [text, setText] = useState('');
+  const logRef = useRef<HTMLUListElement>(null);
+  const now = useNow(chat.cooldownUntil !== null);
+  const waitSeconds = chat.cooldownUntil !== null ? Math.ceil((chat.cooldownUntil - now) / 1000) : 0;
+
+  /**
+   * Efeito: Rolar até a mensagem mais nova
+   */
+  useEffect(() => {
+    const log = logRef.current;
+    if (log) log.scrollTop = log.scrollHeight;
+  }, [chat.messages]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (chat.send(text)) setText('');
+  };
+
+  return (
+    <section className="bg-slate-700 rounded-lg p-4 mb-8 border border-cyan-500" aria-labelledby="chat-title">
+      <h2 id="chat-title" className="text-cyan-400 font-bold mb-3">
+        {t('chat.title')}
+      </h2>
+
+      <ul ref={logRef} role="log" aria-live="polite" className="h-40 overflow-y-auto flex flex-col gap-1 text-sm mb-3">
+        {chat.messages.length === 0 && <li className="text-gray-400 text-center my-auto">{t('chat.empty')}</li>}
+        {chat.messages.map((message) => (
+          <li key={message.id} className="text-gray-200 break-words">
+            <span className={`font-bold ${message.playerId === playerId ? 'text-cyan-300' : 'text-yellow-300'}`}>
+              {senderName(message, players, t)}:
+            </span>{' '}
+            {message.text}
+          </li>
+        ))}
+      </ul>
+
+      {waitSeconds > 0 && (
+        <p className="mb-2 text-xs text-yellow-300">{t('chat.cooldown', { seconds: waitSeconds })}</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          maxLength={MAX_CHAT_LENGTH}
+          placeholder={t('chat.placeholder')}
+          aria-label={t('chat.placeholder')}
+          className="flex-1 min-w-0 px-3 py-2 rounded bg-slate-800 text-white text-sm border border-slate-600 focus:border-cyan-400 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!text.trim()}
+          className="px-4 py-2 rounded font-bold text-sm bg-cyan-500 text-white hover:bg-cyan-400 disabled:bg-gray-600 disabled:text-gray-400"
+        >
+          {t('chat.send')}
+        </button>
+      </form>
+    </section>
+  );
+}
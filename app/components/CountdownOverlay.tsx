@@ -0,0 +1,27 @@
+'use client';
+
+import { useI18n } from '../hooks/useI18n';
+
+interface CountdownOverlayProps {
+  /** Segundos até a partida começar (useCountdown) */
+  secondsLeft: number;
+}
+
+/**
+ * Contagem regressiva 3-2-1 sobre a arena antes do início da partida
+ * O input do jogador só é aceito quando ela termina
+ */
+export function CountdownOverlay({ secondsLeft }: CountdownOverlayProps) {
+  const { t } = useI18n();
+
+  if (secondsLeft <= 0) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex flex-col items-center justify-center z-50 pointer-events-none">
+      <p className="text-gray-300 text-lg mb-4">{t('countdown.startsIn')}</p>
+      <span key={secondsLeft} className="text-9xl font-bold text-cyan-400 animate-pulse">
+        {secondsLeft}
+      </span>
+    </div>
+  );
+}
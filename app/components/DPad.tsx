@@ -0,0 +1,66 @@
+'use client';
+
+/**
+ * Componente DPad - Direcional na tela para telas de toque
+ *
+ * Responsabilidades:
+ * - Enviar direções por botões na tela
+ * - Alternar a exibição (auto / sempre / nunca), salva nas configurações
+ *
+ * Os botões respondem em pointerdown, sem esperar o clique terminar.
+ */
+
+import { useI18n } from '../hooks/useI18n';
+import { useMediaQuery } from '../hooks/useMediaQuery';
+import type { InputAction } from '../lib/input';
+import type { Direction } from '../lib/protocol';
+import { DPadMode, settingsStore, updateSettings } from '../lib/settings';
+import { useStoredValue } from '../lib/storage';
+
+interface DPadProps {
+  onMove: (direction: Direction) => void;
+}
+
+const NEXT_MODE: Record<DPadMode, DPadMode> = { auto: 'on', on: 'off', off: 'auto' };
+
+const BUTTONS: { label: string; name: InputAction; direction: Direction; area: string }[] = [
+  { label: '▲', name: 'up', direction: { dx: 0, dy: -1 }, area: 'col-start-2 row-start-1' },
+  { label: '◀', name: 'left', direction: { dx: -1, dy: 0 }, area: 'col-start-1 row-start-2' },
+  { label: '▶', name: 'right', direction: { dx: 1, dy: 0 }, area: 'col-start-3 row-start-2' },
+  { label: '▼', name: 'down', direction: { dx: 0, dy: 1 }, area: 'col-start-2 row-start-3' },
+];
+
+export function DPad({ onMove }: DPadProps) {
+  const { dpad } = useStoredValue(settingsStore);
+  const { t } = useI18n();
+  const isTouch = useMediaQuery('(pointer: coarse)');
+  const visible = dpad === 'on' || (dpad === 'auto' && isTouch);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 flex flex-col items-end gap-2">
+      {visible && (
+        <div className="grid grid-cols-3 grid-rows-3 gap-1 select-none touch-none">
+          {BUTTONS.map(({ label, name, direction, area }) => (
+            <button
+              key={label}
+              onPointerDown={(event) => {
+                event.preventDefault();
+                onMove(direction);
+              }}
+              className={`${area} w-14 h-14 rounded-lg bg-slate-700/80 text-white text-2xl active:bg-cyan-500`}
+              aria-label={t(`dpad.move.${name}`)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      <button
+        onClick={() => updateSettings({ dpad: NEXT_MODE[dpad] })}
+        className="text-xs bg-slate-700/80 text-gray-300 px-3 py-1 rounded hover:bg-slate-600"
+      >
+        {t('dpad.mode', { mode: t(`dpad.mode.${dpad}`) })}
+      </button>
+    </div>
+  );
+}
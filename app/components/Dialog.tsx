@@ -0,0 +1,95 @@
+'use client';
+
+/**
+ * Componente Dialog - Janela modal acessível
+ *
+ * Responsabilidades:
+ * - Semântica de diálogo (role="dialog", aria-modal, título ligado por
+ *   aria-labelledby)
+ * - Foco: entra no diálogo ao abrir, fica preso nele com Tab/Shift+Tab e
+ *   volta ao elemento que o abriu ao fechar
+ * - Fechar com Escape ou clicando fora do painel
+ *
+ * Uso:
+ * {open && (
+ *   <Dialog title="Título" onClose={fechar} className="border-cyan-500">
+ *     ...
+ *   </Dialog>
+ * )}
+ */
+
+import { KeyboardEvent, ReactNode, useEffect, useId, useRef } from 'react';
+
+interface DialogProps {
+  title: ReactNode;
+  onClose: () => void;
+  /** Classes extras do painel (cor da borda, altura máxima) */
+  className?: string;
+  /** Classes do título (cor) */
+  titleClassName?: string;
+  children: ReactNode;
+}
+
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+export function Dialog({ title, onClose, className = '', titleClassName = '', children }: DialogProps) {
+  const titleId = useId();
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Efeito: Levar o foco ao diálogo e devolvê-lo ao fechar
+   */
+  useEffect(() => {
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    panelRef.current?.focus();
+    return () => opener?.focus();
+  }, []);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      onClose();
+      return;
+    }
+    if (event.key !== 'Tab' || !panelRef.current) return;
+
+    // Tab no último elemento volta ao primeiro (e Shift+Tab o contrário)
+    const focusable = Array.from(panelRef.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+    if (focusable.length === 0) {
+      event.preventDefault();
+      return;
+    }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = document.activeElement;
+
+    if (event.shiftKey && (active === first || active === panelRef.current)) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && active === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => e.stopPropagation()}
+        className={`bg-slate-800 p-8 rounded-2xl border-2 max-w-2xl w-11/12 overflow-y-auto outline-none ${className}`}
+      >
+        <h2 id={titleId} className={`text-2xl font-bold mb-6 text-center ${titleClassName}`}>
+          {title}
+        </h2>
+        {children}
+      </div>
+    </div>
+  );
+}
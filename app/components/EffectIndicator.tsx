@@ -1,69 +1,73 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+/**
+ * Componente EffectIndicator - Efeitos ativos do jogador
+ *
+ * Responsabilidades:
+ * - Empilhar todos os efeitos ativos, cada um com nome, descrição,
+ *   segundos restantes e barra de tempo
+ * - Medir cada barra pela duração do efeito no catálogo
+ * - Contar o tempo no relógio do servidor, que definiu o endTime
+ *
+ * Fica no canto superior direito, abaixo da linha de conexão e ping.
+ */
 
-interface ActiveEffect {
-  type: 'speedBoost' | 'slowDown';
-  endTime: number;
-}
+import { useI18n } from '../hooks/useI18n';
+import { useNow } from '../hooks/useNow';
+import { useTheme } from '../hooks/useTheme';
+import { effectInfo, effectName, effectProgress } from '../lib/catalog';
+import type { ActiveEffect } from '../lib/protocol';
+import { effectBar } from '../lib/themes';
 
 interface EffectIndicatorProps {
-  effect: ActiveEffect | null;
+  effects: ActiveEffect[];
+  /** Relógio do servidor (SessionClock.serverNow) */
+  serverNow: () => number;
 }
 
-export function EffectIndicator({ effect }: EffectIndicatorProps) {
-  const [timeLeft, setTimeLeft] = useState(0);
-
-  useEffect(() => {
-    if (!effect) {
-      setTimeLeft(0);
-      return;
-    }
-
-    const updateTimer = setInterval(() => {
-      const now = Date.now();
-      const remaining = Math.max(0, effect.endTime - now);
-      const remainingSeconds = Math.ceil(remaining / 1000);
-      setTimeLeft(remainingSeconds);
-
-      if (remaining <= 0) {
-        clearInterval(updateTimer);
-      }
-    }, 100);
+export function EffectIndicator({ effects, serverNow }: EffectIndicatorProps) {
+  const now = useNow(effects.length > 0, serverNow);
+  const theme = useTheme();
+  const { t } = useI18n();
 
-    return () => clearInterval(updateTimer);
-  }, [effect]);
+  const running = effects
+    .map((effect) => ({ effect, ...effectProgress(effect, now) }))
+    .filter(({ remainingMs }) => remainingMs > 0);
 
-  if (!effect || timeLeft <= 0) {
+  if (running.length === 0) {
     return null;
   }
 
-  const percentage = (timeLeft / 10) * 100;
-  const isSpeedBoost = effect.type === 'speedBoost';
-  const bgGradient = isSpeedBoost 
-    ? 'linear-gradient(to right, #f97316, #eab308)' 
-    : 'linear-gradient(to right, #a855f7, #6366f1)';
-  const label = isSpeedBoost ? '🍊 Laranja' : '🍇 Uva';
-  const description = isSpeedBoost ? '+50% velocidade' : '-50% velocidade';
-
   return (
-    <div className="fixed top-4 right-4 w-64 p-4 bg-gray-900/95 border-2 border-gray-700 rounded-lg backdrop-blur-sm z-40">
-      <div className="flex items-center justify-between mb-2">
-        <span className="text-white font-bold">{label}</span>
-        <span className="text-white text-sm">{timeLeft}s</span>
-      </div>
-      
-      <p className="text-gray-300 text-xs mb-3">{description}</p>
-      
-      <div className="w-full h-6 bg-gray-800 rounded-full overflow-hidden border border-gray-600">
-        <div
-          className="h-full transition-all duration-100"
-          style={{ 
-            width: `${percentage}%`,
-            background: bgGradient
-          }}
-        />
-      </div>
-    </div>
+    <ul className="fixed top-16 right-4 w-64 flex flex-col gap-2 z-40" aria-label={t('effect.active')}>
+      {running.map(({ effect, remainingMs, fraction }) => {
+        const info = effectInfo(effect.type);
+        return (
+          <li
+            key={effect.type}
+            className="p-4 bg-gray-900/95 border-2 border-gray-700 rounded-lg backdrop-blur-sm"
+          >
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-white font-bold">
+                {info.emoji} {effectName(effect.type, t)}
+              </span>
+              <span className="text-white text-sm">{Math.ceil(remainingMs / 1000)}s</span>
+            </div>
+
+            <p className="text-gray-300 text-xs mb-3">{t(info.descriptionKey)}</p>
+
+            <div className="w-full h-6 bg-gray-800 rounded-full overflow-hidden border border-gray-600">
+              <div
+                className="h-full transition-all duration-100"
+                style={{
+                  width: `${fraction * 100}%`,
+                  background: effectBar(theme, effect.type),
+                }}
+              />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
   );
 }
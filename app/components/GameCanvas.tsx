@@ -8,48 +8,191 @@
  * - Desenhar cobras
  * - Desenhar comida
  * - Desenhar interface (scores, status)
- * - Capturar input do teclado
+ * - Interpolar as cobras entre ticks do servidor
+ * - Prever a cabeça da cobra local um tick à frente
+ * - Destacar uma cobra (modo espectador)
+ * - Mostrar os emotes do chat sobre a cobra de quem enviou
+ * - Câmera: seguir a cobra local (ou a escolhida pelo espectador), zoom
+ *   pela roda do mouse, pinça ou botões, e opção de ver a arena inteira
+ * - Minimapa com todas as cobras e frutas quando a arena não cabe na visão
  * - Calcular conversão de coordenadas lógicas para pixels
  *
+ * Escala:
+ * - O canvas ocupa o contêiner inteiro; a câmera (lib/camera.ts) decide
+ *   qual parte da arena aparece e o tamanho da célula
+ * - O desenho da arena usa CELL_SIZE como unidade lógica e uma
+ *   transformação do contexto para a câmera
+ * - O canvas tem devicePixelRatio pixels por pixel CSS (nítido em telas
+ *   de alta densidade)
+ * - Textos (nomes, placar, minimapa) são desenhados em pixels CSS, sem escala
+ *
+ * Render loop: requestAnimationFrame
+ * - Guarda os dois últimos snapshots de gameState
+ * - Desenha a cada frame da tela, não a cada tick do servidor
+ * - Pula o frame quando nada mudou (interpolação concluída, câmera parada)
+ * - Nos frames desenhados, a cena vem pronta (uma cópia) e só a parte
+ *   dinâmica é redesenhada
+ * - Cobras remotas: interpoladas entre o snapshot anterior e o atual
+ * - Cobra local: interpolada do snapshot atual até a posição prevista,
+ *   com correção suave quando o servidor discorda da previsão
+ *
+ * Camadas (lib/canvasLayers.ts):
+ * - Fundo e grade: célula desenhada uma vez e repetida como padrão
+ * - Frutas: sprites pré-desenhados por emoji
+ * - Cena: fundo, frutas e cobras mortas num canvas fora da tela, refeito
+ *   só quando um snapshot muda frutas ou cobras mortas, quando tema ou
+ *   zoom mudam, ou quando a câmera sai da margem coberta
+ * - Dinâmica: cobras vivas, auras, nomes, emotes e interface, redesenhados
+ *   por cima da cena a cada frame, só na área visível
+ * - Tempo de quadro medido por FrameTimer (opção nas configurações)
+ *
  * Tecnologia: HTML5 Canvas API
  * - Render direto em pixel
  * - Alto desempenho
  * - Completo controle visual
  *
- * Cores:
- * - Próprio jogador: #4CAF50 (verde)
- * - Outros jogadores: #2196F3 (azul)
- * - Comida: #FF9800 (laranja)
- * - Fundo: #1a1a1a (cinzento escuro)
- * - Grade: #444 (cinzento claro)
+ * Cores: do tema escolhido (lib/themes.ts)
+ * - Cada cobra usa a cor escolhida pelo dono, com etiqueta de nome,
+ *   exceto em temas que forçam a paleta (daltonismo, alto contraste)
+ * - Sem cor escolhida: própria e outras cobras com as cores do tema
+ * - Trocar o tema refaz os caches de camadas (a chave inclui as cores)
+ * - Ao desmontar, os caches são descartados
  */
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useRef } from 'react';
+import {
+  Camera,
+  CellRect,
+  ViewSize,
+  ZOOM_STEP,
+  cellToScreen,
+  clampCamera,
+  defaultCellPx,
+  screenToCell,
+  visibleArea,
+  zoomAt,
+  zoomLimits,
+} from '../lib/camera';
+import { fruitInfo } from '../lib/catalog';
+import { EMOTE_DURATION_MS, EmoteBubble, emoteEmoji } from '../lib/chat';
+import { LayerCache } from '../lib/canvasLayers';
+import { FrameTimer } from '../lib/frameTimer';
+import { DEFAULT_LOCALE, I18n, getI18n } from '../lib/i18n';
+import { displayName, isHexColor } from '../lib/profile';
+import type { Direction, Fruit, GameState, Point, Snake } from '../lib/protocol';
+import {
+  DEFAULT_TICK_MS,
+  TimedSnapshot,
+  estimateTickInterval,
+  lerpBody,
+  observedDirection,
+  predictBody,
+  samePoint,
+  tickProgress,
+} from '../lib/interpolation';
+import { settingsStore, updateSettings } from '../lib/settings';
+import { useStoredValue } from '../lib/storage';
+import { THEMES, Theme, effectAura } from '../lib/themes';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme } from '../hooks/useTheme';
 
-interface Fruit {
-  x: number;
-  y: number;
-  type: 'apple' | 'mango';
+interface GameCanvasProps {
+  gameState: GameState | null;
+  playerId: string | null;
+  predictedDirection?: Direction | null;
+  /** Prever a cobra local; desligado em replays, onde tudo já é conhecido */
+  prediction?: boolean;
+  /** Cobra destacada com contorno */
+  highlightId?: string | null;
+  /** Cobra que a câmera acompanha; sem ela, a cobra local enquanto viva */
+  followId?: string | null;
+  /** Clique sobre uma cobra no canvas */
+  onSnakeClick?: (snakeId: string) => void;
+  /** Mostrar o tempo de quadro mesmo com a opção desligada (benchmark) */
+  showFrameTime?: boolean;
+  /** Emotes em exibição (ChatControls.emotes) */
+  emotes?: EmoteBubble[];
 }
 
-interface Snake {
-  id: string;
-  body: Array<{ x: number; y: number }>;
-  alive: boolean;
-  score: number;
-  activeEffects: Array<{ type: 'speedBoost' | 'slowDown'; endTime: number }>;
-}
+// Unidade lógica de desenho (uma célula)
+const CELL_SIZE = 12;
 
-interface GameState {
-  snakes: Snake[];
-  food: Fruit[];
-  gameWidth: number;
-  gameHeight: number;
-}
+/** Fração da distância até o alvo que a câmera percorre por frame */
+const FOLLOW_SMOOTHING = 0.15;
 
-interface GameCanvasProps {
-  gameState: GameState | null;
+/** Abaixo desta distância (em células) a câmera para no alvo */
+const CAMERA_SNAP = 0.01;
+
+/** Espessura da linha da grade, em unidades de desenho */
+const GRID_LINE_WIDTH = 0.5;
+
+/** Segmentos (a partir da cabeça) que recebem a aura de efeito */
+const AURA_TRAIL = 6;
+
+/** Quanto cada anel de aura passa da célula, em unidades de desenho */
+const AURA_SPREAD = 3;
+
+/** Opacidade da aura junto à cabeça */
+const AURA_ALPHA = 0.45;
+
+/** Duração do "pulo" do emote ao aparecer e do sumiço no fim */
+const EMOTE_POP_MS = 150;
+const EMOTE_FADE_MS = 400;
+
+/** Fração da célula ocupada pelo emoji da fruta */
+const FRUIT_FONT_SCALE = (CELL_SIZE - 4) / CELL_SIZE;
+
+/** Lado maior do minimapa e distância da borda, em pixels CSS */
+const MINIMAP_SIZE_PX = 140;
+const MINIMAP_MARGIN_PX = 10;
+
+/** Distância máxima (em células) de um clique até a cobra escolhida */
+const CLICK_RADIUS = 2;
+
+/** Lista vazia estável, para o padrão da prop emotes */
+const NO_EMOTES: EmoteBubble[] = [];
+
+/**
+ * Estado do render loop, mantido fora do ciclo de render do React
+ */
+interface RenderState {
+  previous: TimedSnapshot | null;
+  current: TimedSnapshot | null;
+  tickMs: number;
   playerId: string | null;
+  direction: Direction | null;
+  prediction: boolean;
+  highlightId: string | null;
+  followId: string | null;
+  /** Corpo previsto da cobra local para o próximo tick */
+  predicted: Point[] | null;
+  /** Último corpo desenhado da cobra local */
+  lastDrawn: Point[] | null;
+  /** Correção em andamento quando a previsão falhou */
+  correction: { from: Point[]; startedAt: number } | null;
+  /** Mostrar a arena inteira (configuração salva) */
+  fitArena: boolean;
+  /** Zoom escolhido (pixels CSS por célula); null = padrão */
+  zoom: number | null;
+  /** Câmera do último frame; null até o primeiro frame */
+  camera: Camera | null;
+  /** Área de desenho do último frame */
+  view: ViewSize;
+  /** A câmera está seguindo uma cobra (sem arrastar para mover) */
+  following: boolean;
+  showFrameTime: boolean;
+  emotes: EmoteBubble[];
+  /** Algo fora do snapshot e da câmera mudou (props, destaque) */
+  dirty: boolean;
+  /** Assinatura do último frame desenhado; igual = frame pulado */
+  lastPaint: string;
+  /** Assinatura do conteúdo da cena (frutas, cobras mortas) do snapshot */
+  sceneContent: { state: GameState; key: string } | null;
+  layers: LayerCache;
+  timer: FrameTimer;
+  theme: Theme;
+  /** Idioma dos textos desenhados (nomes, placar, tempo de quadro) */
+  i18n: I18n;
 }
 
 /**
@@ -57,173 +200,863 @@ interface GameCanvasProps {
  *
  * @param gameState - Estado atual do jogo do servidor
  * @param playerId - ID do jogador local
+ * @param predictedDirection - Última direção enviada pelo jogador local
+ * @param prediction - Se a cobra local deve ser prevista um tick à frente
+ * @param highlightId - Cobra destacada
+ * @param followId - Cobra seguida pela visão
+ * @param onSnakeClick - Callback ao clicar numa cobra
+ * @param emotes - Emotes a desenhar sobre as cobras
  */
-export function GameCanvas({ gameState, playerId }: GameCanvasProps) {
+export function GameCanvas({
+  gameState,
+  playerId,
+  predictedDirection = null,
+  prediction = true,
+  highlightId = null,
+  followId = null,
+  onSnakeClick,
+  showFrameTime = false,
+  emotes = NO_EMOTES,
+}: GameCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [lastDirection, setLastDirection] = useState({ dx: 1, dy: 0 });
-
-  // Dimensões do canvas
-  const CELL_SIZE = 12;
-  const GAME_WIDTH = gameState?.gameWidth || 100;
-  const GAME_HEIGHT = gameState?.gameHeight || 60;
-  const CANVAS_WIDTH = GAME_WIDTH * CELL_SIZE;
-  const CANVAS_HEIGHT = GAME_HEIGHT * CELL_SIZE;
-
-  // Cores
-  const COLORS = {
-    background: '#1a1a1a',
-    grid: '#444',
-    playerSnake: '#4CAF50',
-    otherSnake: '#2196F3',
-    food: '#FF9800',
-    dead: '#666',
-    text: '#FFF',
-  };
+  /** Ponteiros pressionados sobre o canvas (arrastar, pinça) */
+  const pointersRef = useRef(new Map<number, Point>());
+  const settings = useStoredValue(settingsStore);
+  const { fitArena } = settings;
+  const frameTime = showFrameTime || settings.showFrameTime;
+  const theme = useTheme();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const renderRef = useRef<RenderState>({
+    previous: null,
+    current: null,
+    tickMs: DEFAULT_TICK_MS,
+    playerId: null,
+    direction: null,
+    prediction: true,
+    highlightId: null,
+    followId: null,
+    predicted: null,
+    lastDrawn: null,
+    correction: null,
+    fitArena: false,
+    zoom: null,
+    camera: null,
+    view: { width: 0, height: 0 },
+    following: false,
+    showFrameTime: false,
+    emotes: NO_EMOTES,
+    dirty: true,
+    lastPaint: '',
+    sceneContent: null,
+    layers: new LayerCache(),
+    timer: new FrameTimer(),
+    theme: THEMES.dark,
+    i18n: getI18n(DEFAULT_LOCALE),
+  });
+
+  /**
+   * Efeito: Sincronizar props com o render loop
+   */
+  useEffect(() => {
+    renderRef.current.playerId = playerId;
+    renderRef.current.direction = predictedDirection;
+    renderRef.current.prediction = prediction;
+    renderRef.current.highlightId = highlightId;
+    renderRef.current.followId = followId;
+    renderRef.current.fitArena = fitArena;
+    renderRef.current.showFrameTime = frameTime;
+    renderRef.current.emotes = emotes;
+    renderRef.current.theme = theme;
+    renderRef.current.i18n = i18n;
+    renderRef.current.dirty = true;
+  }, [playerId, predictedDirection, prediction, highlightId, followId, fitArena, frameTime, emotes, theme, i18n]);
 
   /**
-   * Renderizar o jogo no canvas
+   * Efeito: Registrar novo snapshot do servidor
    *
-   * Ordem de renderização:
-   * 1. Fundo e grade
-   * 2. Comida
-   * 3. Cobras
-   * 4. Interface (scores)
+   * Atualiza a estimativa de tick e verifica se a previsão da cobra local
+   * acertou. Se o servidor discordar, inicia uma correção a partir do que
+   * estava sendo desenhado para não haver salto visual.
    */
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas || !gameState) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // 1. Renderizar fundo
-    ctx.fillStyle = COLORS.background;
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-
-    // 2. Renderizar grade
-    ctx.strokeStyle = COLORS.grid;
-    ctx.lineWidth = 0.5;
-    for (let i = 0; i <= GAME_WIDTH; i++) {
-      ctx.beginPath();
-      ctx.moveTo(i * CELL_SIZE, 0);
-      ctx.lineTo(i * CELL_SIZE, CANVAS_HEIGHT);
-      ctx.stroke();
-    }
-    for (let i = 0; i <= GAME_HEIGHT; i++) {
-      ctx.beginPath();
-      ctx.moveTo(0, i * CELL_SIZE);
-      ctx.lineTo(CANVAS_WIDTH, i * CELL_SIZE);
-      ctx.stroke();
+    if (!gameState) return;
+
+    const render = renderRef.current;
+    const now = performance.now();
+
+    if (render.current) {
+      render.tickMs = estimateTickInterval(render.tickMs, now - render.current.receivedAt);
     }
 
-    // 3. Renderizar comida (múltiplas)
-    gameState.food.forEach((food) => {
-      drawFood(ctx, food);
-    });
+    const ownSnake = gameState.snakes.find((snake) => snake.id === render.playerId);
+    if (render.predicted && render.lastDrawn && ownSnake?.alive) {
+      if (!samePoint(render.predicted[0], ownSnake.body[0])) {
+        render.correction = { from: render.lastDrawn, startedAt: now };
+      }
+    }
 
-    // 4. Renderizar cobras
-    gameState.snakes.forEach((snake) => {
-      const isPlayerSnake = snake.id === playerId;
-      drawSnake(ctx, snake, isPlayerSnake);
-    });
+    render.previous = render.current;
+    render.current = { state: gameState, receivedAt: now };
 
-    // 5. Renderizar interface
-    drawUI(ctx, gameState.snakes, playerId);
-  }, [gameState, playerId]);
+    const previousOwn = render.previous?.state.snakes.find((snake) => snake.id === render.playerId);
+    render.predicted = render.prediction && ownSnake?.alive
+      ? predictBody(
+          ownSnake.body,
+          render.direction,
+          observedDirection(previousOwn, ownSnake),
+          gameState.gameWidth,
+          gameState.gameHeight
+        )
+      : null;
+  }, [gameState]);
 
   /**
-   * Desenhar cobra no canvas
+   * Efeito: Render loop com requestAnimationFrame
    *
-   * @param ctx - Contexto do canvas
-   * @param snake - Dados da cobra
-   * @param isPlayer - Se é a cobra do jogador local
+   * Ordem de renderização:
+   * 0. Ajustar o canvas ao contêiner e mover a câmera; pular o frame se
+   *    nada mudou desde o último desenho
+   * 1. Cena (fundo e grade, comida, cobras mortas), copiada da camada em
+   *    cache; refeita só quando muda ou a câmera sai da margem
+   * 2. Cobras vivas (interpoladas, só segmentos visíveis)
+   * 3. Nomes, interface (scores), minimapa e tempo de quadro, em pixels CSS
    */
-  const drawSnake = (ctx: CanvasRenderingContext2D, snake: Snake, isPlayer: boolean) => {
-    const color = isPlayer ? COLORS.playerSnake : COLORS.otherSnake;
-    const deadColor = COLORS.dead;
-    const currentColor = snake.alive ? color : deadColor;
-
-    // Desenhar corpo
-    snake.body.forEach((segment, index) => {
-      const x = segment.x * CELL_SIZE;
-      const y = segment.y * CELL_SIZE;
-
-      ctx.fillStyle = currentColor;
-      ctx.fillRect(x + 1, y + 1, CELL_SIZE - 2, CELL_SIZE - 2);
-
-      // Cabeça com borda mais escura
-      if (index === 0 && snake.alive) {
-        ctx.strokeStyle = 'rgba(0,0,0,0.3)';
-        ctx.lineWidth = 2;
-        ctx.strokeRect(x + 1, y + 1, CELL_SIZE - 2, CELL_SIZE - 2);
+  useEffect(() => {
+    const { layers } = renderRef.current;
+    let frameId = 0;
+
+    const frame = () => {
+      frameId = requestAnimationFrame(frame);
+
+      const canvas = canvasRef.current;
+      const render = renderRef.current;
+      if (!canvas || !render.current) return;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+
+      const now = performance.now();
+      const state = render.current.state;
+      const alpha = tickProgress(now, render.current.receivedAt, render.tickMs);
+      const dpr = window.devicePixelRatio || 1;
+      const view = sizeCanvas(canvas, dpr);
+      render.view = view;
+
+      const snakes = state.snakes.map((snake) => {
+        const isPlayerSnake = snake.id === render.playerId;
+        const body = isPlayerSnake && render.prediction
+          ? localBody(render, snake, alpha, now)
+          : remoteBody(render, snake, alpha);
+        return { snake, body, isPlayerSnake };
+      });
+
+      const target = render.followId
+        ? snakes.find(({ snake }) => snake.id === render.followId)
+        : snakes.find(({ snake, isPlayerSnake }) => isPlayerSnake && snake.alive);
+      render.following = !!target;
+      const camera = moveCamera(render, state, target?.body[0]);
+
+      // Interpolação, correção e emotes só mudam o desenho enquanto estão em curso
+      const wallNow = Date.now();
+      const emoting = render.emotes.some((bubble) => wallNow - bubble.shownAt < EMOTE_DURATION_MS);
+      const animating = alpha < 1 || render.correction !== null || emoting;
+      const paint = [
+        render.current.receivedAt,
+        animating ? now : 'parado',
+        camera.x,
+        camera.y,
+        camera.cellPx,
+        view.width,
+        view.height,
+        dpr,
+      ].join('|');
+      if (!render.dirty && paint === render.lastPaint) return;
+      render.dirty = false;
+      render.lastPaint = paint;
+
+      const paintStart = performance.now();
+      const area = visibleArea(camera, view);
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      // Arena em unidades lógicas (CELL_SIZE), posicionada pela câmera
+      const cellDevicePx = camera.cellPx * dpr;
+      const scale = cellDevicePx / CELL_SIZE;
+      const origin = cellToScreen(camera, view, { x: 0, y: 0 });
+      ctx.setTransform(scale, 0, 0, scale, origin.x * dpr, origin.y * dpr);
+
+      const { theme, i18n } = render;
+      const arena = { x: 0, y: 0, width: state.gameWidth, height: state.gameHeight };
+      const scene = render.layers.sceneLayer(
+        sceneContent(render, state),
+        area,
+        arena,
+        CELL_SIZE,
+        cellDevicePx,
+        (sceneCtx, bounds) => {
+          drawBackground(sceneCtx, render.layers, theme, state.gameWidth, state.gameHeight, cellDevicePx);
+          state.food.forEach((food) => {
+            if (isVisible(bounds, food)) drawFood(sceneCtx, render.layers, food, cellDevicePx);
+          });
+          state.snakes.forEach((snake) => {
+            if (!snake.alive) drawSnake(sceneCtx, theme, snake, snake.body, false, bounds);
+          });
+        }
+      );
+      if (scene) {
+        // Pixel inteiro: a cópia fica nítida (no máximo meio pixel de desvio)
+        const corner = cellToScreen(camera, view, { x: scene.bounds.x, y: scene.bounds.y });
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.drawImage(scene.canvas, Math.round(corner.x * dpr), Math.round(corner.y * dpr));
+        ctx.setTransform(scale, 0, 0, scale, origin.x * dpr, origin.y * dpr);
       }
-    });
-  };
+
+      // Auras antes dos corpos, para não cobrir cobras vizinhas
+      snakes.forEach(({ snake, body }) => drawEffectAura(ctx, theme, snake, body, area));
+      snakes.forEach(({ snake, body, isPlayerSnake }) => {
+        if (snake.alive) drawSnake(ctx, theme, snake, body, isPlayerSnake, area);
+        if (snake.id === render.highlightId) drawHighlight(ctx, theme, body);
+      });
+
+      // Textos em pixels CSS, legíveis em qualquer escala
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      snakes.forEach(({ snake, body }) => {
+        if (!snake.alive || !body[0] || !isVisible(area, body[0])) return;
+        drawNameTag(ctx, theme, displayName(snake, i18n.t), body[0], camera, view);
+      });
+      render.emotes.forEach((bubble) => {
+        const sender = snakes.find(({ snake }) => snake.id === bubble.playerId);
+        if (!sender?.snake.alive || !sender.body[0] || !isVisible(area, sender.body[0])) return;
+        drawEmote(ctx, bubble, sender.body[0], camera, view, wallNow);
+      });
+      drawUI(ctx, theme, i18n, state.snakes, render.playerId);
+      drawMinimap(ctx, theme, state, camera, view, render.playerId);
+
+      const paintEnd = performance.now();
+      render.timer.record(paintEnd, paintEnd - paintStart);
+      if (render.showFrameTime) drawFrameTime(ctx, theme, i18n, render.timer, paintEnd, view);
+    };
+
+    frameId = requestAnimationFrame(frame);
+    return () => {
+      cancelAnimationFrame(frameId);
+      layers.clear();
+    };
+  }, []);
 
   /**
-   * Desenhar uma fruta no canvas
+   * Efeito: Zoom pela roda do mouse, ancorado no cursor
    *
-   * @param ctx - Contexto do canvas
-   * @param fruit - Fruta com tipo e posição
+   * Listener nativo (não passivo) para impedir a rolagem da página.
    */
-  const drawFood = (ctx: CanvasRenderingContext2D, fruit: Fruit) => {
-    const x = fruit.x * CELL_SIZE + CELL_SIZE / 2;
-    const y = fruit.y * CELL_SIZE + CELL_SIZE / 2;
-
-    // Emoji das frutas
-    const fruitEmojis: Record<string, string> = {
-      apple: '🍎',
-      mango: '🥭',
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      zoomCamera(renderRef.current, event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, {
+        x: event.offsetX,
+        y: event.offsetY,
+      });
     };
 
-    ctx.font = `bold ${CELL_SIZE - 4}px Arial`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText(fruitEmojis[fruit.type] || '🍎', x, y);
-  };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
 
   /**
-   * Desenhar interface do jogo (scores e status)
-   *
-   * @param ctx - Contexto do canvas
-   * @param snakes - Lista de cobras
-   * @param playerId - ID do jogador local
+   * Converte o clique em célula e escolhe a cobra mais próxima
    */
-  const drawUI = (
-    ctx: CanvasRenderingContext2D,
-    snakes: Snake[],
-    playerId: string | null
-  ) => {
-    // Desenhar scores
-    ctx.fillStyle = COLORS.text;
-    ctx.font = 'bold 14px Arial';
-    ctx.textAlign = 'left';
-
-    let yOffset = 20;
-    snakes.forEach((snake, index) => {
-      const isPlayer = snake.id === playerId;
-      const prefix = isPlayer ? '👤 Você' : '🤖 Jogador';
-      const statusText = snake.alive ? '✓ Vivo' : '✗ Morto';
-
-      ctx.fillStyle = isPlayer ? COLORS.playerSnake : COLORS.otherSnake;
-      ctx.fillText(
-        `${prefix} - Score: ${snake.score} - ${statusText}`,
-        10,
-        yOffset
-      );
-      yOffset += 25;
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const render = renderRef.current;
+    const state = render.current?.state;
+    if (!onSnakeClick || !state || !render.camera) return;
+
+    const cell = screenToCell(render.camera, render.view, {
+      x: event.nativeEvent.offsetX,
+      y: event.nativeEvent.offsetY,
     });
+
+    const snakeId = snakeAt(state.snakes, cell);
+    if (snakeId) onSnakeClick(snakeId);
   };
 
+  /**
+   * Pinça (dois ponteiros) muda o zoom; arrastar com um ponteiro move a
+   * câmera quando ela não está seguindo ninguém
+   */
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(event.pointerId);
+    if (!previous) return;
+
+    const render = renderRef.current;
+    const point = { x: event.nativeEvent.offsetX, y: event.nativeEvent.offsetY };
+    pointers.set(event.pointerId, point);
+
+    if (pointers.size === 2) {
+      const other = [...pointers].find(([id]) => id !== event.pointerId)?.[1];
+      if (!other) return;
+      const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const after = Math.hypot(point.x - other.x, point.y - other.y);
+      if (before > 0) {
+        zoomCamera(render, after / before, { x: (point.x + other.x) / 2, y: (point.y + other.y) / 2 });
+      }
+    } else if (pointers.size === 1 && !render.following && render.camera) {
+      render.camera = {
+        ...render.camera,
+        x: render.camera.x - (point.x - previous.x) / render.camera.cellPx,
+        y: render.camera.y - (point.y - previous.y) / render.camera.cellPx,
+      };
+    }
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointersRef.current.set(event.pointerId, { x: event.nativeEvent.offsetX, y: event.nativeEvent.offsetY });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(event.pointerId);
+  };
+
+  const buttonClass = 'py-1 px-3 rounded-lg text-sm font-bold bg-slate-700 text-white hover:bg-slate-600';
+
   return (
     <div className="flex flex-col items-center justify-center gap-4">
       <h1 className="text-3xl font-bold">🐍 Snake Multiplayer</h1>
-      <canvas
-        ref={canvasRef}
-        width={CANVAS_WIDTH}
-        height={CANVAS_HEIGHT}
-        className="border-4 border-gray-700 bg-gray-900"
-      />
+      {/* Tamanho do canvas definido pelo render loop (sizeCanvas) */}
+      <div className="w-[95vw] h-[70vh]">
+        <canvas
+          ref={canvasRef}
+          onClick={handleClick}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          role="img"
+          aria-label={t('canvas.label')}
+          className={`block w-full h-full touch-none border-4 border-gray-700 bg-gray-900 ${onSnakeClick ? 'cursor-pointer' : ''}`}
+        />
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => zoomCamera(renderRef.current, 1 / ZOOM_STEP)}
+          className={buttonClass}
+          aria-label={t('canvas.zoomOut')}
+        >
+          −
+        </button>
+        <button
+          onClick={() => zoomCamera(renderRef.current, ZOOM_STEP)}
+          className={buttonClass}
+          aria-label={t('canvas.zoomIn')}
+        >
+          +
+        </button>
+        <button onClick={() => updateSettings({ fitArena: !fitArena })} className={buttonClass}>
+          {fitArena ? t('canvas.follow') : t('canvas.fitArena')}
+        </button>
+      </div>
     </div>
   );
 }
+
+/**
+ * Ajusta a câmera do frame: zoom (arena inteira, escolhido ou padrão)
+ * e centro, que se aproxima suavemente da cabeça seguida
+ *
+ * @param render - Estado do render loop (camera é atualizada)
+ * @param state - Snapshot desenhado
+ * @param head - Cabeça seguida; sem ela a câmera fica onde está
+ * @returns Câmera do frame, já dentro da arena
+ */
+function moveCamera(render: RenderState, state: GameState, head: Point | undefined): Camera {
+  const { gameWidth: width, gameHeight: height } = state;
+  const limits = zoomLimits(render.view, width, height);
+  const cellPx = render.fitArena
+    ? limits.min
+    : Math.min(limits.max, Math.max(limits.min, render.zoom ?? defaultCellPx(render.view, width, height)));
+
+  const target = head ? { x: head.x + 0.5, y: head.y + 0.5 } : { x: width / 2, y: height / 2 };
+  const ease = (from: number, to: number) =>
+    Math.abs(to - from) < CAMERA_SNAP ? to : from + (to - from) * FOLLOW_SMOOTHING;
+  const current = render.camera;
+  const next = !current
+    ? { ...target, cellPx }
+    : head
+      ? { x: ease(current.x, target.x), y: ease(current.y, target.y), cellPx }
+      : { ...current, cellPx };
+
+  render.camera = clampCamera(next, render.view, width, height);
+  return render.camera;
+}
+
+/**
+ * Aproxima (factor > 1) ou afasta a câmera; mexer no zoom sai do modo
+ * "arena inteira"
+ *
+ * @param render - Estado do render loop
+ * @param factor - Multiplicador do tamanho da célula
+ * @param anchor - Ponto da tela que fica parado; padrão: centro
+ */
+function zoomCamera(render: RenderState, factor: number, anchor?: Point) {
+  const state = render.current?.state;
+  if (!state || !render.camera) return;
+
+  const limits = zoomLimits(render.view, state.gameWidth, state.gameHeight);
+  const cellPx = Math.min(limits.max, Math.max(limits.min, render.camera.cellPx * factor));
+  const center = { x: render.view.width / 2, y: render.view.height / 2 };
+
+  render.zoom = cellPx;
+  render.camera = zoomAt(render.camera, render.view, cellPx, anchor ?? center);
+  if (render.fitArena) {
+    render.fitArena = false;
+    updateSettings({ fitArena: false });
+  }
+}
+
+/**
+ * Cobra com algum segmento mais próximo do ponto, dentro de CLICK_RADIUS
+ */
+function snakeAt(snakes: Snake[], point: Point): string | null {
+  let closest: string | null = null;
+  let closestDistance = CLICK_RADIUS;
+
+  snakes.forEach((snake) => {
+    snake.body.forEach((segment) => {
+      const distance = Math.hypot(segment.x + 0.5 - point.x, segment.y + 0.5 - point.y);
+      if (distance < closestDistance) {
+        closest = snake.id;
+        closestDistance = distance;
+      }
+    });
+  });
+
+  return closest;
+}
+
+/**
+ * Ajusta a resolução do canvas ao tamanho exibido (CSS, sem a borda)
+ *
+ * Só redimensiona quando o tamanho muda (redimensionar limpa o canvas).
+ *
+ * @param canvas - Canvas do jogo
+ * @param dpr - devicePixelRatio da tela
+ * @returns Área de desenho em pixels CSS
+ */
+function sizeCanvas(canvas: HTMLCanvasElement, dpr: number): ViewSize {
+  const view = { width: canvas.clientWidth, height: canvas.clientHeight };
+  const pixelWidth = Math.round(view.width * dpr);
+  const pixelHeight = Math.round(view.height * dpr);
+
+  if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
+  }
+
+  return view;
+}
+
+/**
+ * Corpo de uma cobra remota: interpolado entre o snapshot anterior e o atual
+ */
+function remoteBody(render: RenderState, snake: Snake, alpha: number): Point[] {
+  const previous = render.previous?.state.snakes.find((other) => other.id === snake.id);
+  if (!previous || !snake.alive) return snake.body;
+  return lerpBody(previous.body, snake.body, alpha);
+}
+
+/**
+ * Corpo da cobra local: interpolado do snapshot atual até a previsão
+ *
+ * Durante uma correção, mistura o último corpo desenhado com a posição
+ * correta ao longo de um tick.
+ */
+function localBody(render: RenderState, snake: Snake, alpha: number, now: number): Point[] {
+  if (!snake.alive) {
+    render.lastDrawn = null;
+    return snake.body;
+  }
+
+  let body = render.predicted ? lerpBody(snake.body, render.predicted, alpha) : snake.body;
+
+  if (render.correction) {
+    const progress = tickProgress(now, render.correction.startedAt, render.tickMs);
+    if (progress >= 1) {
+      render.correction = null;
+    } else {
+      body = lerpBody(render.correction.from, body, progress);
+    }
+  }
+
+  render.lastDrawn = body;
+  return body;
+}
+
+/**
+ * Assinatura da cena: tema, frutas e cobras mortas
+ *
+ * Calculada uma vez por snapshot; snapshots completos iguais ao anterior
+ * (mesmas frutas, ninguém morreu) reaproveitam a cena.
+ */
+function sceneContent(render: RenderState, state: GameState): string {
+  if (render.sceneContent?.state !== state) {
+    const food = state.food.map((fruit) => `${fruit.x},${fruit.y},${fruit.type}`).join(';');
+    const dead = state.snakes
+      .filter((snake) => !snake.alive)
+      .map((snake) => `${snake.id}:${snake.body.length}:${snake.body[0]?.x},${snake.body[0]?.y}`)
+      .join(';');
+    render.sceneContent = { state, key: `${food}|${dead}` };
+  }
+  return `${render.theme.id}|${render.sceneContent.key}`;
+}
+
+/**
+ * Célula dentro da área visível (com margem de uma célula)
+ */
+function isVisible(area: CellRect, point: Point): boolean {
+  return (
+    point.x >= area.x - 1 &&
+    point.y >= area.y - 1 &&
+    point.x <= area.x + area.width &&
+    point.y <= area.y + area.height
+  );
+}
+
+/**
+ * Desenhar fundo e grade com o padrão em cache (um único fillRect)
+ *
+ * @param ctx - Contexto do canvas
+ * @param layers - Cache de camadas
+ * @param theme - Tema ativo
+ * @param width - Largura da arena em células
+ * @param height - Altura da arena em células
+ * @param cellDevicePx - Célula em pixels do dispositivo
+ */
+function drawBackground(
+  ctx: CanvasRenderingContext2D,
+  layers: LayerCache,
+  theme: Theme,
+  width: number,
+  height: number,
+  cellDevicePx: number
+) {
+  const pattern = layers.gridPattern(ctx, CELL_SIZE, cellDevicePx, theme.canvas, GRID_LINE_WIDTH);
+  ctx.fillStyle = pattern ?? theme.canvas.background;
+  ctx.fillRect(0, 0, width * CELL_SIZE, height * CELL_SIZE);
+}
+
+/**
+ * Desenhar cobra no canvas
+ *
+ * @param ctx - Contexto do canvas
+ * @param theme - Tema ativo
+ * @param snake - Dados da cobra
+ * @param body - Segmentos a desenhar (posições interpoladas)
+ * @param isPlayer - Se é a cobra do jogador local
+ * @param area - Área visível; segmentos fora dela não são desenhados
+ */
+function drawSnake(
+  ctx: CanvasRenderingContext2D,
+  theme: Theme,
+  snake: Snake,
+  body: Point[],
+  isPlayer: boolean,
+  area: CellRect
+) {
+  const color = snakeColor(theme, snake, isPlayer);
+  const deadColor = theme.canvas.dead;
+  const currentColor = snake.alive ? color : deadColor;
+
+  // Desenhar corpo
+  body.forEach((segment, index) => {
+    if (!isVisible(area, segment)) return;
+
+    const x = segment.x * CELL_SIZE;
+    const y = segment.y * CELL_SIZE;
+
+    ctx.fillStyle = currentColor;
+    ctx.fillRect(x + 1, y + 1, CELL_SIZE - 2, CELL_SIZE - 2);
+
+    // Cabeça com borda mais escura
+    if (index === 0 && snake.alive) {
+      ctx.strokeStyle = 'rgba(0,0,0,0.3)';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x + 1, y + 1, CELL_SIZE - 2, CELL_SIZE - 2);
+    }
+  });
+}
+
+/**
+ * Cor da cobra: a escolhida pelo dono, ou a do tema (própria/outras)
+ */
+function snakeColor(theme: Theme, snake: Snake, isPlayer: boolean): string {
+  if (!theme.ignoreCustomColors && isHexColor(snake.color)) return snake.color;
+  return isPlayer ? theme.canvas.playerSnake : theme.canvas.otherSnake;
+}
+
+/**
+ * Etiqueta com o nome acima da cabeça
+ *
+ * @param ctx - Contexto do canvas (em pixels CSS)
+ * @param theme - Tema ativo
+ * @param name - Nome de exibição da cobra
+ * @param head - Posição desenhada da cabeça
+ * @param camera - Câmera do frame
+ * @param view - Área de desenho
+ */
+function drawNameTag(
+  ctx: CanvasRenderingContext2D,
+  theme: Theme,
+  name: string,
+  head: Point | undefined,
+  camera: Camera,
+  view: ViewSize
+) {
+  if (!head) return;
+
+  const anchor = cellToScreen(camera, view, { x: head.x + 0.5, y: head.y });
+  const x = anchor.x;
+  const y = anchor.y - 4;
+
+  ctx.font = 'bold 10px Arial';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = theme.canvas.textOutline;
+  ctx.strokeText(name, x, y);
+  ctx.fillStyle = theme.canvas.text;
+  ctx.fillText(name, x, y);
+}
+
+/**
+ * Emote sobre a cabeça, acima do nome: cresce ao aparecer, sobe devagar
+ * e some no fim
+ *
+ * @param ctx - Contexto do canvas (em pixels CSS)
+ * @param bubble - Emote e instante em que apareceu
+ * @param head - Posição desenhada da cabeça
+ * @param camera - Câmera do frame
+ * @param view - Área de desenho
+ * @param now - Relógio do navegador (Date.now)
+ */
+function drawEmote(
+  ctx: CanvasRenderingContext2D,
+  bubble: EmoteBubble,
+  head: Point,
+  camera: Camera,
+  view: ViewSize,
+  now: number
+) {
+  const age = now - bubble.shownAt;
+  if (age < 0 || age >= EMOTE_DURATION_MS) return;
+
+  const scale = 0.5 + 0.5 * Math.min(1, age / EMOTE_POP_MS);
+  const anchor = cellToScreen(camera, view, { x: head.x + 0.5, y: head.y });
+  const rise = (age / EMOTE_DURATION_MS) * 8;
+
+  ctx.save();
+  ctx.globalAlpha = Math.min(1, (EMOTE_DURATION_MS - age) / EMOTE_FADE_MS);
+  ctx.font = `${Math.round(22 * scale)}px Arial`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(emoteEmoji(bubble.emote), anchor.x, anchor.y - 16 - rise);
+  ctx.restore();
+}
+
+/**
+ * Contorno de destaque da cobra selecionada
+ *
+ * @param ctx - Contexto do canvas
+ * @param theme - Tema ativo
+ * @param body - Segmentos desenhados
+ */
+function drawHighlight(ctx: CanvasRenderingContext2D, theme: Theme, body: Point[]) {
+  ctx.strokeStyle = theme.canvas.highlight;
+  ctx.lineWidth = 2;
+  body.forEach((segment) => {
+    ctx.strokeRect(segment.x * CELL_SIZE, segment.y * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+  });
+}
+
+/**
+ * Aura dos efeitos ativos: um halo por efeito em volta da cabeça que
+ * esmaece ao longo do corpo, como um rastro
+ *
+ * Efeitos simultâneos formam anéis concêntricos, o primeiro por dentro.
+ *
+ * @param ctx - Contexto do canvas
+ * @param theme - Tema ativo (pode trocar as cores do catálogo)
+ * @param snake - Dados da cobra (efeitos e se está viva)
+ * @param body - Segmentos desenhados
+ * @param area - Área visível
+ */
+function drawEffectAura(
+  ctx: CanvasRenderingContext2D,
+  theme: Theme,
+  snake: Snake,
+  body: Point[],
+  area: CellRect
+) {
+  if (!snake.alive || snake.activeEffects.length === 0) return;
+
+  const trail = body.slice(0, AURA_TRAIL);
+  ctx.save();
+  // Do anel mais externo para o mais interno, para todos ficarem visíveis
+  for (let ring = snake.activeEffects.length - 1; ring >= 0; ring--) {
+    const spread = AURA_SPREAD * (ring + 1);
+    ctx.fillStyle = effectAura(theme, snake.activeEffects[ring].type);
+    trail.forEach((segment, index) => {
+      if (!isVisible(area, segment)) return;
+      ctx.globalAlpha = AURA_ALPHA * (1 - index / trail.length);
+      ctx.fillRect(
+        segment.x * CELL_SIZE - spread,
+        segment.y * CELL_SIZE - spread,
+        CELL_SIZE + spread * 2,
+        CELL_SIZE + spread * 2
+      );
+    });
+  }
+  ctx.restore();
+}
+
+/**
+ * Desenhar uma fruta a partir do sprite em cache
+ *
+ * @param ctx - Contexto do canvas
+ * @param layers - Cache de camadas
+ * @param fruit - Fruta com tipo e posição
+ * @param cellDevicePx - Célula em pixels do dispositivo
+ */
+function drawFood(ctx: CanvasRenderingContext2D, layers: LayerCache, fruit: Fruit, cellDevicePx: number) {
+  const sprite = layers.sprite(fruitInfo(fruit.type).emoji, cellDevicePx, FRUIT_FONT_SCALE);
+  ctx.drawImage(sprite, fruit.x * CELL_SIZE, fruit.y * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+}
+
+/**
+ * Desenhar interface do jogo (scores e status)
+ *
+ * @param ctx - Contexto do canvas
+ * @param theme - Tema ativo
+ * @param i18n - Idioma dos textos e dos números
+ * @param snakes - Lista de cobras
+ * @param playerId - ID do jogador local
+ */
+function drawUI(ctx: CanvasRenderingContext2D, theme: Theme, i18n: I18n, snakes: Snake[], playerId: string | null) {
+  const { t } = i18n;
+  // Desenhar scores
+  ctx.fillStyle = theme.canvas.text;
+  ctx.font = 'bold 14px Arial';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+
+  let yOffset = 20;
+  snakes.forEach((snake) => {
+    const isPlayer = snake.id === playerId;
+    const name = isPlayer ? `👤 ${displayName(snake, t)} ${t('common.youTag')}` : `🐍 ${displayName(snake, t)}`;
+    const status = snake.alive ? t('common.alive') : t('common.dead');
+
+    ctx.fillStyle = snakeColor(theme, snake, isPlayer);
+    ctx.fillText(t('canvas.scoreLine', { name, score: snake.score, status }), 10, yOffset);
+    yOffset += 25;
+  });
+}
+
+/**
+ * Minimapa no canto inferior esquerdo: arena inteira, cobras, frutas e
+ * o retângulo da área visível
+ *
+ * Só aparece quando a visão não mostra a arena inteira.
+ *
+ * @param ctx - Contexto do canvas (em pixels CSS)
+ * @param theme - Tema ativo
+ * @param state - Snapshot desenhado
+ * @param camera - Câmera do frame
+ * @param view - Área de desenho
+ * @param playerId - ID do jogador local
+ */
+function drawMinimap(
+  ctx: CanvasRenderingContext2D,
+  theme: Theme,
+  state: GameState,
+  camera: Camera,
+  view: ViewSize,
+  playerId: string | null
+) {
+  const { gameWidth: width, gameHeight: height } = state;
+  const area = visibleArea(camera, view);
+  if (area.width >= width && area.height >= height) return;
+
+  const scale = MINIMAP_SIZE_PX / Math.max(width, height);
+  const left = MINIMAP_MARGIN_PX;
+  const top = view.height - height * scale - MINIMAP_MARGIN_PX;
+  const dot = Math.max(2, scale);
+
+  ctx.fillStyle = theme.canvas.overlay;
+  ctx.fillRect(left, top, width * scale, height * scale);
+  ctx.strokeStyle = theme.canvas.grid;
+  ctx.lineWidth = 1;
+  ctx.strokeRect(left, top, width * scale, height * scale);
+
+  ctx.fillStyle = theme.canvas.food;
+  state.food.forEach((fruit) => {
+    ctx.fillRect(left + fruit.x * scale, top + fruit.y * scale, dot, dot);
+  });
+
+  state.snakes.forEach((snake) => {
+    ctx.fillStyle = snake.alive ? snakeColor(theme, snake, snake.id === playerId) : theme.canvas.dead;
+    snake.body.forEach((segment) => {
+      ctx.fillRect(left + segment.x * scale, top + segment.y * scale, dot, dot);
+    });
+  });
+
+  // Área visível, recortada às bordas da arena
+  const x = Math.max(0, area.x);
+  const y = Math.max(0, area.y);
+  ctx.strokeStyle = theme.canvas.text;
+  ctx.strokeRect(
+    left + x * scale,
+    top + y * scale,
+    (Math.min(width, area.x + area.width) - x) * scale,
+    (Math.min(height, area.y + area.height) - y) * scale
+  );
+}
+
+/**
+ * Tempo de quadro no canto superior direito
+ *
+ * @param ctx - Contexto do canvas (em pixels CSS)
+ * @param theme - Tema ativo
+ * @param i18n - Idioma do texto e dos números
+ * @param timer - Medições dos quadros
+ * @param now - Instante atual
+ * @param view - Área de desenho
+ */
+function drawFrameTime(
+  ctx: CanvasRenderingContext2D,
+  theme: Theme,
+  { t, formatNumber }: I18n,
+  timer: FrameTimer,
+  now: number,
+  view: ViewSize
+) {
+  const { averageMs, maxMs, paintedPerSecond } = timer.stats(now);
+  const text = t('canvas.frameTime', {
+    average: formatNumber(averageMs, 2),
+    max: formatNumber(maxMs, 2),
+    fps: paintedPerSecond,
+  });
+
+  ctx.font = '12px monospace';
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'top';
+  const width = ctx.measureText(text).width;
+  ctx.fillStyle = theme.canvas.overlay;
+  ctx.fillRect(view.width - width - 16, 6, width + 12, 20);
+  ctx.fillStyle = theme.canvas.text;
+  ctx.fillText(text, view.width - 10, 10);
+}
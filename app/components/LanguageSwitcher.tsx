@@ -0,0 +1,42 @@
+'use client';
+
+/**
+ * Componente LanguageSwitcher - Escolha do idioma da interface
+ *
+ * Responsabilidades:
+ * - Listar "automático" (idioma do navegador) e os idiomas suportados
+ * - Salvar a escolha em settingsStore; todo o app troca na hora
+ *
+ * Usado no topo do lobby e nas configurações.
+ */
+
+import { useBrowserLocale, useI18n } from '../hooks/useI18n';
+import { LOCALES, LOCALE_LABELS } from '../lib/i18n';
+import { LocaleSetting, settingsStore, updateSettings } from '../lib/settings';
+import { useStoredValue } from '../lib/storage';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+export function LanguageSwitcher({ className = '' }: LanguageSwitcherProps) {
+  const { locale } = useStoredValue(settingsStore);
+  const detected = useBrowserLocale();
+  const { t } = useI18n();
+
+  return (
+    <select
+      value={locale}
+      onChange={(event) => updateSettings({ locale: event.target.value as LocaleSetting })}
+      aria-label={t('settings.language')}
+      className={`bg-slate-700 text-white rounded-lg px-3 py-2 ${className}`}
+    >
+      <option value="auto">{t('settings.languageAuto', { language: LOCALE_LABELS[detected] })}</option>
+      {LOCALES.map((option) => (
+        <option key={option} value={option} lang={option}>
+          {LOCALE_LABELS[option]}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+/**
+ * Componente LiveRegion - Região aria-live global
+ *
+ * Responsabilidades:
+ * - Exibir (só para leitores de tela) as mensagens de lib/announcer.ts
+ *
+ * Fica no layout raiz, montada uma vez para todas as páginas; cada
+ * mensagem é um parágrafo novo, lido quando é adicionado.
+ */
+
+import { useSyncExternalStore } from 'react';
+import { getAnnouncements, getServerAnnouncements, subscribeAnnouncements } from '../lib/announcer';
+
+export function LiveRegion() {
+  const announcements = useSyncExternalStore(subscribeAnnouncements, getAnnouncements, getServerAnnouncements);
+
+  return (
+    <div className="sr-only" role="log" aria-live="polite" aria-relevant="additions">
+      {announcements.map((announcement) => (
+        <p key={announcement.id}>{announcement.text}</p>
+      ))}
+    </div>
+  );
+}
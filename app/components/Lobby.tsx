@@ -1,60 +1,90 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Socket } from 'socket.io-client';
+import { useState } from 'react';
+import Link from 'next/link';
+import { ProfileEditor } from './ProfileEditor';
+import { RoomPanel } from './RoomPanel';
+import { ChatPanel } from './ChatPanel';
+import { Dialog } from './Dialog';
+import { LanguageSwitcher } from './LanguageSwitcher';
+import { SettingsPanel } from './SettingsPanel';
+import { useI18n } from '../hooks/useI18n';
+import type { ChatControls, RoomControls } from '../hooks/useWebSocket';
+import { EFFECTS, FRUITS, FRUIT_TYPES } from '../lib/catalog';
+import { canStartMatch } from '../lib/lobby';
+import { displayName, isHexColor } from '../lib/profile';
+import type { LobbyPlayer, LobbyStatus } from '../lib/protocol';
 
 interface LobbyProps {
-  socket: Socket | null;
-  onGameStart: () => void;
+  /** startGame da sessão ativa (servidor ou motor local) */
+  startGame: () => void;
+  /** Status já validado pelo useWebSocket */
+  lobbyStatus: LobbyStatus | null;
+  /** Envia o "pronto"; ausente quando não há ready-check (ex.: offline) */
+  setReady?: (ready: boolean) => void;
+  /** startGame enviado, aguardando confirmação do servidor */
+  isStarting?: boolean;
+  /** Motivo da última falha ao iniciar */
+  startError?: string | null;
+  /** Presente quando há partida em andamento para assistir */
+  onSpectate?: () => void;
+  /** Controles de sala; sem eles o lobby é único (ex.: offline) */
+  rooms?: RoomControls | null;
+  /** ID do jogador local, marcado na lista */
+  playerId?: string | null;
+  /** Chat da sala; sem ele não há painel de chat (ex.: offline) */
+  chat?: ChatControls | null;
 }
 
-interface LobbyStatus {
-  status: string;
-  playerCount: number;
-  players: string[];
-}
+const EMPTY_LOBBY: LobbyStatus = {
+  status: 'lobby',
+  playerCount: 0,
+  players: [],
+};
 
-export default function Lobby({ socket, onGameStart }: LobbyProps) {
-  const [lobbyStatus, setLobbyStatus] = useState<LobbyStatus>({
-    status: 'lobby',
-    playerCount: 0,
-    players: [],
-  });
-  const [isLoading, setIsLoading] = useState(false);
+export default function Lobby({
+  startGame,
+  lobbyStatus: status,
+  setReady,
+  isStarting = false,
+  startError = null,
+  onSpectate,
+  rooms = null,
+  playerId = null,
+  chat = null,
+}: LobbyProps) {
+  const lobbyStatus = status ?? EMPTY_LOBBY;
+  const { t } = useI18n();
   const [showFruitInfo, setShowFruitInfo] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
 
-  useEffect(() => {
-    if (!socket) return;
-
-    const handleLobbyUpdate = (data: LobbyStatus) => {
-      setLobbyStatus(data);
-    };
-
-    socket.on('lobbyUpdate', handleLobbyUpdate);
-
-    return () => {
-      socket.off('lobbyUpdate', handleLobbyUpdate);
-    };
-  }, [socket]);
+  const isReady = !!lobbyStatus.players.find((player) => player.id === playerId)?.ready;
+  const readyCount = lobbyStatus.players.filter((player) => player.ready).length;
+  const canStart = canStartMatch(lobbyStatus, playerId);
 
-  const handleStartGame = () => {
-    setIsLoading(true);
-    socket?.emit('startGame');
-    onGameStart();
-  };
+  const muteLabel = (player: LobbyPlayer) =>
+    t(chat?.muted.includes(player.id) ? 'chat.unmute' : 'chat.mute', { name: displayName(player, t) });
 
   return (
-    <div className="w-full h-screen bg-slate-900 flex items-center justify-center">
-      <div className="bg-slate-800 rounded-2xl p-12 shadow-2xl max-w-md w-full border-2 border-cyan-500">
+    <div className="w-full h-screen overflow-y-auto bg-slate-900 flex justify-center py-8">
+      <div className="bg-slate-800 rounded-2xl p-12 shadow-2xl max-w-md w-full h-fit my-auto border-2 border-cyan-500">
+        <div className="flex justify-end -mt-6 mb-2">
+          <LanguageSwitcher className="text-xs py-1" />
+        </div>
+
         <div className="text-center mb-8">
           <h1 className="text-5xl font-bold text-cyan-400 mb-2">🐍 SNAKE</h1>
-          <p className="text-gray-300 text-lg">Multiplayer Game</p>
+          <p className="text-gray-300 text-lg">{t('lobby.subtitle')}</p>
         </div>
 
+        <ProfileEditor />
+
+        {rooms && <RoomPanel rooms={rooms} />}
+
         <div className="bg-slate-700 rounded-lg p-6 mb-8 border border-cyan-500">
           <h2 className="text-cyan-400 font-bold mb-4 flex items-center gap-2">
             <span className="w-3 h-3 bg-green-500 rounded-full animate-pulse"></span>
-            Jogadores Online
+            {rooms?.current ? t('lobby.playersInRoom') : t('lobby.playersOnline')}
           </h2>
           
           <div className="text-3xl font-bold text-cyan-300 text-center mb-2">
@@ -63,71 +93,163 @@ export default function Lobby({ socket, onGameStart }: LobbyProps) {
           
           <p className="text-gray-400 text-center text-sm">
             {lobbyStatus.playerCount === 1
-              ? 'Você está sozinho'
-              : `${lobbyStatus.playerCount} jogadores online`}
+              ? t('lobby.alone')
+              : t('lobby.playersCount', { count: lobbyStatus.playerCount })}
           </p>
+
+          {lobbyStatus.players.length > 0 && (
+            <ul className="mt-4 flex flex-col gap-1 max-h-40 overflow-y-auto">
+              {lobbyStatus.players.map((player) => (
+                <li key={player.id} className="flex items-center gap-2 text-sm text-gray-200">
+                  <span
+                    className="w-3 h-3 rounded-full bg-gray-400"
+                    style={isHexColor(player.color) ? { backgroundColor: player.color } : undefined}
+                  />
+                  {displayName(player, t)}
+                  {player.id === lobbyStatus.hostId && <span title={t('lobby.host')}>👑</span>}
+                  {player.id === playerId && <span className="text-gray-400">{t('common.youTag')}</span>}
+                  {chat && player.id !== playerId && (
+                    <button
+                      onClick={() => chat.toggleMute(player.id)}
+                      aria-pressed={chat.muted.includes(player.id)}
+                      aria-label={muteLabel(player)}
+                      title={muteLabel(player)}
+                      className="text-xs opacity-70 hover:opacity-100"
+                    >
+                      {chat.muted.includes(player.id) ? '🔇' : '🔈'}
+                    </button>
+                  )}
+                  {player.ready !== undefined && (
+                    <span className={`ml-auto text-xs ${player.ready ? 'text-green-400' : 'text-gray-500'}`}>
+                      {player.ready ? t('lobby.ready') : t('lobby.waiting')}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
 
+        {chat && <ChatPanel chat={chat} players={lobbyStatus.players} playerId={playerId} />}
+
+        {startError && (
+          <p className="mb-3 text-sm text-red-300 bg-red-900/40 border border-red-500 rounded-lg px-4 py-2">
+            {t('lobby.startError', { reason: startError })}
+          </p>
+        )}
+
+        {setReady && (
+          <button
+            onClick={() => setReady(!isReady)}
+            className={`w-full py-3 px-6 rounded-lg font-bold text-sm transition-all mb-3 active:scale-95 ${
+              isReady
+                ? 'bg-green-600 text-white hover:bg-green-500'
+                : 'bg-slate-600 text-white hover:bg-slate-500'
+            }`}
+          >
+            {isReady ? t('lobby.readyCancel') : t('lobby.setReady')}
+          </button>
+        )}
+
         <button
-          onClick={handleStartGame}
-          disabled={isLoading}
+          onClick={startGame}
+          disabled={isStarting || !canStart}
           className={`w-full py-4 px-6 rounded-lg font-bold text-lg transition-all mb-3 ${
-            isLoading
+            isStarting || !canStart
               ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
               : 'bg-cyan-500 text-white hover:bg-cyan-400 active:scale-95'
           }`}
         >
-          {isLoading ? '⚙️ Iniciando...' : '🎮 Iniciar Jogo'}
+          {isStarting
+            ? t('lobby.starting')
+            : canStart
+              ? t('lobby.start')
+              : t('lobby.waitingReady', { ready: readyCount, total: lobbyStatus.players.length })}
         </button>
 
+        {onSpectate && (
+          <button
+            onClick={onSpectate}
+            className="w-full py-3 px-6 rounded-lg font-bold text-sm bg-yellow-500 text-black hover:bg-yellow-400 active:scale-95 transition-all mb-3"
+          >
+            {t('lobby.spectate')}
+          </button>
+        )}
+
         <button
           onClick={() => setShowFruitInfo(true)}
+          aria-haspopup="dialog"
           className="w-full py-3 px-6 rounded-lg font-bold text-sm bg-purple-600 text-white hover:bg-purple-500 active:scale-95 transition-all"
         >
-          📖 Frutas & Habilidades
+          {t('lobby.fruits')}
         </button>
+
+        <button
+          onClick={() => setShowSettings(true)}
+          aria-haspopup="dialog"
+          className="w-full py-3 px-6 rounded-lg font-bold text-sm bg-slate-600 text-white hover:bg-slate-500 active:scale-95 transition-all mt-3"
+        >
+          {t('lobby.settings')}
+        </button>
+
+        <div className="flex justify-center gap-6 mt-4 text-sm">
+          <Link href="/replay" className="text-gray-400 hover:text-cyan-300 transition-colors">
+            {t('lobby.replay')}
+          </Link>
+          <Link href="/stats" className="text-gray-400 hover:text-cyan-300 transition-colors">
+            {t('lobby.stats')}
+          </Link>
+        </div>
       </div>
 
+      {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} />}
+
       {/* Modal de Frutas */}
       {showFruitInfo && (
-        <div
-          className="fixed inset-0 bg-black/80 flex items-center justify-center z-50"
-          onClick={() => setShowFruitInfo(false)}
+        <Dialog
+          title={t('fruits.title')}
+          onClose={() => setShowFruitInfo(false)}
+          className="border-purple-500 max-h-[80vh]"
+          titleClassName="text-purple-300"
         >
-          <div
-            className="bg-slate-800 p-8 rounded-2xl border-2 border-purple-500 max-w-2xl w-11/12 max-h-[80vh] overflow-y-auto"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <h2 className="text-2xl font-bold text-purple-300 mb-6 text-center">
-              🍎 Frutas & Habilidades
-            </h2>
-
-            <div className="flex flex-col gap-4">
-              {/* Maçã */}
-              <div className="bg-slate-700 p-4 rounded-lg border border-red-500">
-                <h3 className="text-red-300 font-bold mb-2 text-lg">🍎 Maçã</h3>
-                <p className="text-gray-300 text-sm">
-                  <strong>Efeito:</strong> +10 pontos
-                </p>
-              </div>
-
-              {/* Manga */}
-              <div className="bg-slate-700 p-4 rounded-lg border border-amber-500">
-                <h3 className="text-amber-300 font-bold mb-2 text-lg">🥭 Manga</h3>
-                <p className="text-gray-300 text-sm">
-                  <strong>Efeito:</strong> +20 pontos
-                </p>
-              </div>
-            </div>
-
-            <button
-              onClick={() => setShowFruitInfo(false)}
-              className="w-full mt-6 py-3 px-6 rounded-lg font-bold bg-purple-600 text-white hover:bg-purple-500 transition-colors"
-            >
-              Fechar
-            </button>
+          <div className="flex flex-col gap-4">
+            {FRUIT_TYPES.map((type) => {
+              const fruit = FRUITS[type];
+              const effects = fruit.effects.map((id) => EFFECTS[id]);
+              return (
+                <div key={type} className={`bg-slate-700 p-4 rounded-lg border ${fruit.colors.border}`}>
+                  <h3 className={`${fruit.colors.title} font-bold mb-2 text-lg`}>
+                    {fruit.emoji} {t(fruit.nameKey)}
+                  </h3>
+                  <p className="text-gray-300 text-sm">
+                    <strong>{t('fruits.effect')}</strong> {t('fruits.points', { points: fruit.points })}
+                    {effects.length > 0 && ` ${t('fruits.randomEffect')}`}
+                  </p>
+                  {effects.length > 0 && (
+                    <ul className="mt-2 text-gray-300 text-sm list-disc list-inside">
+                      {effects.map((effect) => (
+                        <li key={effect.id}>
+                          {t('fruits.effectLine', {
+                            effect: `${effect.emoji} ${t(effect.nameKey)}`,
+                            description: t(effect.descriptionKey),
+                            seconds: effect.durationMs / 1000,
+                          })}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
           </div>
-        </div>
+
+          <button
+            onClick={() => setShowFruitInfo(false)}
+            className="w-full mt-6 py-3 px-6 rounded-lg font-bold bg-purple-600 text-white hover:bg-purple-500 transition-colors"
+          >
+            {t('common.close')}
+          </button>
+        </Dialog>
       )}
     </div>
   );
@@ -0,0 +1,27 @@
+'use client';
+
+/**
+ * Componente LocaleRoot - Aplica o idioma ao documento
+ *
+ * Responsabilidades:
+ * - Manter o atributo lang do <html> igual ao idioma em uso, para
+ *   leitores de tela e hifenização usarem o idioma certo
+ *
+ * Não renderiza nada; fica no layout raiz, ao lado do ThemeRoot.
+ */
+
+import { useEffect } from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+export function LocaleRoot() {
+  const { locale } = useI18n();
+
+  /**
+   * Efeito: Sincronizar lang com o idioma escolhido
+   */
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return null;
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { useI18n } from '../hooks/useI18n';
+import { bestScore, isNewBest, statsStore } from '../lib/stats';
+import { useStoredValue } from '../lib/storage';
+
+interface PersonalBestCalloutProps {
+  /** Pontuação atual do jogador; undefined para espectadores */
+  score: number | undefined;
+}
+
+/**
+ * Aviso de "novo recorde pessoal" durante a partida
+ * Aparece quando a pontuação atual passa do melhor score do histórico local
+ * (na primeira partida, assim que houver pontos)
+ */
+export function PersonalBestCallout({ score }: PersonalBestCalloutProps) {
+  const history = useStoredValue(statsStore);
+  const best = bestScore(history);
+  const { t } = useI18n();
+
+  if (score === undefined || !isNewBest(score, best)) return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-40 bg-yellow-400 text-black font-bold px-4 py-2 rounded-lg shadow-lg animate-bounce">
+      {t('personalBest.live', { best: best ?? 0, score })}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { useI18n } from '../hooks/useI18n';
+import type { ClockStats } from '../lib/clockSync';
+
+/** Limites (ms) de RTT para a cor: bom, aceitável, ruim */
+const GOOD_RTT_MS = 80;
+const FAIR_RTT_MS = 200;
+
+interface PingIndicatorProps {
+  rttMs: ClockStats['rttMs'];
+  jitterMs: ClockStats['jitterMs'];
+}
+
+/**
+ * Latência até o servidor, ao lado do status de conexão
+ * Sem medição ainda (ou servidor sem pong) mostra um traço
+ */
+export function PingIndicator({ rttMs, jitterMs }: PingIndicatorProps) {
+  const { t } = useI18n();
+
+  if (rttMs === null) {
+    return (
+      <div className="px-3 py-2 rounded bg-gray-700 text-gray-300 text-sm">{t('connection.pingUnknown')}</div>
+    );
+  }
+
+  const color = rttMs < GOOD_RTT_MS ? 'bg-green-700' : rttMs < FAIR_RTT_MS ? 'bg-yellow-600' : 'bg-red-600';
+  const rtt = Math.round(rttMs);
+  const jitter = Math.round(jitterMs ?? 0);
+
+  return (
+    <div
+      className={`px-3 py-2 rounded text-white text-sm ${color}`}
+      title={t('connection.pingDetail', { rtt, jitter })}
+    >
+      {t('connection.ping', { rtt })}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+/**
+ * Componente ProfileEditor - Apelido e cor da cobra
+ *
+ * O perfil é salvo no navegador e enviado ao servidor pela sessão
+ * (useGameSession) sempre que muda. Enquanto nenhuma cor é escolhida, as
+ * cobras usam as cores do tema (própria e outras diferentes).
+ */
+
+import { useI18n } from '../hooks/useI18n';
+import { MAX_NAME_LENGTH, SNAKE_COLORS, normalizeName, profileStore } from '../lib/profile';
+import { useStoredValue } from '../lib/storage';
+
+export function ProfileEditor() {
+  const profile = useStoredValue(profileStore);
+  const { t } = useI18n();
+
+  const saveName = (name: string) => {
+    const normalized = normalizeName(name);
+    if (normalized !== profile.name) profileStore.set({ ...profile, name: normalized });
+  };
+
+  return (
+    <div className="bg-slate-700 rounded-lg p-6 mb-8 border border-cyan-500">
+      <h2 className="text-cyan-400 font-bold mb-4">{t('profile.title')}</h2>
+
+      <input
+        // Remonta com o nome salvo (normalizado) após cada gravação
+        key={profile.name}
+        defaultValue={profile.name}
+        onBlur={(e) => saveName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+        maxLength={MAX_NAME_LENGTH}
+        placeholder={t('profile.namePlaceholder')}
+        className="w-full px-3 py-2 mb-4 rounded-lg bg-slate-800 text-white border border-slate-600 focus:border-cyan-400 outline-none"
+        aria-label={t('profile.nameLabel')}
+      />
+
+      <div className="flex flex-wrap gap-2 justify-center" role="radiogroup" aria-label={t('profile.colorLabel')}>
+        <button
+          role="radio"
+          aria-checked={profile.color === undefined}
+          aria-label={t('profile.themeColor')}
+          title={t('profile.themeColor')}
+          onClick={() => profileStore.set({ name: profile.name })}
+          className={`w-8 h-8 rounded-full border-4 bg-slate-800 text-xs transition-transform ${
+            profile.color === undefined ? 'border-white scale-110' : 'border-transparent hover:scale-105'
+          }`}
+        >
+          🎨
+        </button>
+        {SNAKE_COLORS.map((color) => (
+          <button
+            key={color}
+            role="radio"
+            aria-checked={profile.color === color}
+            aria-label={color}
+            onClick={() => profileStore.set({ ...profile, color })}
+            className={`w-8 h-8 rounded-full border-4 transition-transform ${
+              profile.color === color ? 'border-white scale-110' : 'border-transparent hover:scale-105'
+            }`}
+            style={{ backgroundColor: color }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import { useI18n } from '../hooks/useI18n';
+
+interface ReconnectingOverlayProps {
+  /** Tentativas desde a queda (useWebSocket.reconnectAttempt) */
+  attempt: number;
+  /** Tenta de novo sem esperar o backoff */
+  onRetry: () => void;
+}
+
+/**
+ * Aviso de conexão perdida sobre o jogo
+ * A partida continua visível por baixo; movimentos não são enviados
+ * até a conexão voltar
+ */
+export function ReconnectingOverlay({ attempt, onRetry }: ReconnectingOverlayProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center">
+      <div className="bg-slate-800 border-2 border-yellow-500 rounded-lg p-6 w-80 flex flex-col items-center gap-3 text-center">
+        <div className="animate-spin text-4xl">🔌</div>
+        <p role="alert" className="text-yellow-300 font-bold text-lg">
+          {t('connection.reconnecting')}
+        </p>
+        <p className="text-gray-300 text-sm">{t('connection.inputPaused')}</p>
+        {attempt > 0 && <p className="text-gray-400 text-xs">{t('connection.attempt', { attempt })}</p>}
+        <button
+          onClick={onRetry}
+          className="mt-2 py-2 px-6 rounded-lg font-bold bg-yellow-500 text-black hover:bg-yellow-400 active:scale-95 transition-all"
+        >
+          {t('connection.retry')}
+        </button>
+      </div>
+    </div>
+  );
+}
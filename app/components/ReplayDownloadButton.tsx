@@ -0,0 +1,36 @@
+'use client';
+
+import { useI18n } from '../hooks/useI18n';
+import type { MatchRecording } from '../lib/replay';
+
+interface ReplayDownloadButtonProps {
+  isRecording: boolean;
+  recording: MatchRecording | null;
+  onDownload: () => void;
+}
+
+/**
+ * Indicador de gravação e botão de download do último replay
+ */
+export function ReplayDownloadButton({ isRecording, recording, onDownload }: ReplayDownloadButtonProps) {
+  const { t } = useI18n();
+
+  if (isRecording) {
+    return (
+      <div className="fixed bottom-4 left-4 text-xs bg-red-600/80 text-white px-3 py-1 rounded z-40">
+        {t('replay.recording')}
+      </div>
+    );
+  }
+
+  if (!recording) return null;
+
+  return (
+    <button
+      onClick={onDownload}
+      className="fixed bottom-4 left-4 text-sm bg-slate-700 text-white px-4 py-2 rounded-lg hover:bg-slate-600 active:scale-95 transition-all z-40"
+    >
+      {t('replay.download')}
+    </button>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+/**
+ * Componente ReplayViewer - Reprodução de uma partida gravada
+ *
+ * Responsabilidades:
+ * - Exibir o frame atual através do GameCanvas
+ * - Controles de play/pause, velocidade, linha do tempo e passo a passo
+ */
+
+import { GameCanvas } from './GameCanvas';
+import { useI18n } from '../hooks/useI18n';
+import { REPLAY_SPEEDS, useReplayPlayer } from '../hooks/useReplayPlayer';
+import type { MatchRecording } from '../lib/replay';
+
+interface ReplayViewerProps {
+  recording: MatchRecording;
+}
+
+/**
+ * Formata milissegundos como m:ss.d
+ */
+function formatTime(ms: number): string {
+  const totalSeconds = ms / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+}
+
+export function ReplayViewer({ recording }: ReplayViewerProps) {
+  const { frame, frameIndex, time, duration, isPlaying, speed, play, pause, setSpeed, seek, step } =
+    useReplayPlayer(recording);
+  const { t } = useI18n();
+
+  const buttonClass =
+    'py-2 px-4 rounded-lg font-bold bg-slate-700 text-white hover:bg-slate-600 active:scale-95 transition-all';
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <GameCanvas gameState={frame.state} playerId={recording.playerId} prediction={false} />
+
+      <div className="w-full max-w-3xl bg-slate-800 rounded-lg p-4 border border-cyan-500 flex flex-col gap-3">
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={1}
+          value={time}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="w-full accent-cyan-500"
+          aria-label={t('replay.timeline')}
+        />
+
+        <div className="flex items-center justify-between gap-2 text-sm text-gray-300">
+          <div className="flex gap-2">
+            <button onClick={() => step(-1)} className={buttonClass} aria-label={t('replay.previousFrame')}>
+              ⏮
+            </button>
+            <button onClick={isPlaying ? pause : play} className={buttonClass}>
+              {isPlaying ? t('replay.pause') : t('replay.play')}
+            </button>
+            <button onClick={() => step(1)} className={buttonClass} aria-label={t('replay.nextFrame')}>
+              ⏭
+            </button>
+          </div>
+
+          <span className="font-mono">
+            {formatTime(time)} / {formatTime(duration)} ·{' '}
+            {t('replay.frame', { index: frameIndex + 1, total: recording.frames.length })}
+          </span>
+
+          <label className="flex items-center gap-2">
+            {t('replay.speed')}
+            <select
+              value={speed}
+              onChange={(e) => setSpeed(Number(e.target.value))}
+              className="bg-slate-700 text-white rounded px-2 py-1"
+            >
+              {REPLAY_SPEEDS.map((option) => (
+                <option key={option} value={option}>
+                  {option}×
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
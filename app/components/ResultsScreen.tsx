@@ -0,0 +1,136 @@
+'use client';
+
+/**
+ * Componente ResultsScreen - Tela de fim de partida
+ *
+ * Responsabilidades:
+ * - Mostrar o vencedor e o ranking final
+ * - Mostrar pontuação, tamanho máximo, frutas por tipo e tempo de
+ *   sobrevivência de cada jogador
+ * - Destacar um novo recorde pessoal
+ * - Oferecer revanche e volta ao lobby
+ */
+
+import { useI18n } from '../hooks/useI18n';
+import { FRUITS, FRUIT_TYPES } from '../lib/catalog';
+import { displayName, isHexColor } from '../lib/profile';
+import { MatchResults, formatDuration } from '../lib/results';
+
+interface ResultsScreenProps {
+  results: MatchResults;
+  playerId: string | null;
+  /** A pontuação do jogador superou o recorde do histórico local */
+  isPersonalBest?: boolean;
+  onRematch: () => void;
+  onBackToLobby: () => void;
+}
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+export function ResultsScreen({
+  results,
+  playerId,
+  isPersonalBest = false,
+  onRematch,
+  onBackToLobby,
+}: ResultsScreenProps) {
+  const winner = results.ranking.find((player) => player.id === results.winnerId);
+  const own = results.ranking.find((player) => player.id === playerId);
+  const { t, formatNumber, formatOrdinal } = useI18n();
+
+  return (
+    <div className="w-full h-screen overflow-y-auto bg-slate-900 flex justify-center py-8">
+      <div className="bg-slate-800 rounded-2xl p-8 shadow-2xl max-w-2xl w-11/12 h-fit my-auto border-2 border-cyan-500">
+        <h1 className="text-4xl font-bold text-cyan-400 text-center mb-2">{t('results.title')}</h1>
+        <p className="text-gray-400 text-center text-sm mb-6">{t('results.duration', { duration: formatDuration(results.durationMs) })}</p>
+
+        {winner && (
+          <div className="bg-slate-700 rounded-lg p-4 mb-6 border border-yellow-400 text-center">
+            <p className="text-yellow-300 text-sm">{t('results.winner')}</p>
+            <p className="text-2xl font-bold text-white">
+              🏆 {displayName(winner, t)}
+              {winner.id === playerId && <span className="text-yellow-300"> {t('common.youTag')}</span>}
+            </p>
+          </div>
+        )}
+
+        {isPersonalBest && own && (
+          <p className="text-center font-bold text-black bg-yellow-400 rounded-lg px-4 py-2 mb-6">
+            {t('results.personalBest', { score: own.score })}
+          </p>
+        )}
+
+        {own && own.id !== results.winnerId && (
+          <p className="text-center text-gray-300 mb-6">
+            {t('results.finishedIn')}{' '}
+            <strong className="text-cyan-300">{t('results.place', { place: formatOrdinal(own.placement) })}</strong>
+          </p>
+        )}
+
+        <div className="overflow-x-auto mb-6">
+          <table className="w-full text-sm text-gray-200">
+            <thead>
+              <tr className="text-gray-400 text-xs text-left border-b border-slate-600">
+                <th className="py-2 pr-2">#</th>
+                <th className="py-2 pr-2">{t('results.player')}</th>
+                <th className="py-2 pr-2 text-right">{t('results.score')}</th>
+                <th className="py-2 pr-2 text-right">{t('results.maxLength')}</th>
+                {FRUIT_TYPES.map((type) => (
+                  <th key={type} className="py-2 pr-2 text-right" title={t(FRUITS[type].nameKey)}>
+                    {FRUITS[type].emoji}
+                  </th>
+                ))}
+                <th className="py-2 text-right">{t('results.survived')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.ranking.map((player) => (
+                <tr
+                  key={player.id}
+                  className={`border-b border-slate-700 ${player.id === playerId ? 'bg-cyan-900/30' : ''}`}
+                >
+                  <td className="py-2 pr-2">{MEDALS[player.placement - 1] ?? player.placement}</td>
+                  <td className="py-2 pr-2">
+                    <span className="flex items-center gap-2">
+                      <span
+                        className="w-3 h-3 rounded-full bg-gray-400"
+                        style={isHexColor(player.color) ? { backgroundColor: player.color } : undefined}
+                      />
+                      {displayName(player, t)}
+                      {player.id === playerId && <span className="text-gray-400">{t('common.youTag')}</span>}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-2 text-right font-bold">{formatNumber(player.score)}</td>
+                  <td className="py-2 pr-2 text-right">{formatNumber(player.maxLength)}</td>
+                  {FRUIT_TYPES.map((type) => (
+                    <td key={type} className="py-2 pr-2 text-right">
+                      {player.fruitsEaten[type]}
+                    </td>
+                  ))}
+                  <td className="py-2 text-right">
+                    {player.survived ? t('results.untilEnd') : formatDuration(player.survivalMs)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onRematch}
+            className="flex-1 py-3 px-6 rounded-lg font-bold bg-cyan-500 text-white hover:bg-cyan-400 active:scale-95 transition-all"
+          >
+            {t('results.rematch')}
+          </button>
+          <button
+            onClick={onBackToLobby}
+            className="flex-1 py-3 px-6 rounded-lg font-bold bg-slate-600 text-white hover:bg-slate-500 active:scale-95 transition-all"
+          >
+            {t('results.backToLobby')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
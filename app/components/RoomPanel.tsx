@@ -0,0 +1,139 @@
+'use client';
+
+/**
+ * Componente RoomPanel - Criar, entrar e compartilhar salas
+ *
+ * Responsabilidades:
+ * - Mostrar a sala atual com link compartilhável
+ * - Criar sala nova ou entrar por código
+ * - Listar salas abertas com número de jogadores
+ */
+
+import { useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import type { RoomControls } from '../hooks/useWebSocket';
+import { isMessageKey } from '../lib/i18n';
+import { roomLink } from '../lib/rooms';
+
+interface RoomPanelProps {
+  rooms: RoomControls;
+}
+
+export function RoomPanel({ rooms }: RoomPanelProps) {
+  const [code, setCode] = useState('');
+  const [copied, setCopied] = useState(false);
+  const { t } = useI18n();
+
+  // Status de sala desconhecido (servidor mais novo) aparece como veio
+  const statusLabel = (status: string) => {
+    const key = `rooms.status.${status}`;
+    return isMessageKey(key) ? t(key) : status;
+  };
+
+  const handleJoin = (event: React.FormEvent) => {
+    event.preventDefault();
+    rooms.join(code);
+  };
+
+  const handleCopy = async () => {
+    if (!rooms.current) return;
+    await navigator.clipboard.writeText(roomLink(rooms.current, window.location.origin));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-slate-700 rounded-lg p-6 mb-8 border border-cyan-500">
+      {rooms.current ? (
+        <>
+          <h2 className="text-cyan-400 font-bold mb-2">{t('rooms.current')}</h2>
+          <div className="text-3xl font-mono font-bold text-cyan-300 text-center tracking-widest mb-4">
+            {rooms.current}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleCopy}
+              className="flex-1 py-2 rounded-lg font-bold text-sm bg-slate-600 text-white hover:bg-slate-500 transition-colors"
+            >
+              {copied ? t('rooms.copied') : t('rooms.copy')}
+            </button>
+            <button
+              onClick={rooms.leave}
+              className="flex-1 py-2 rounded-lg font-bold text-sm bg-slate-600 text-white hover:bg-slate-500 transition-colors"
+            >
+              {t('rooms.leave')}
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <h2 className="text-cyan-400 font-bold mb-4">{t('rooms.title')}</h2>
+
+          <button
+            onClick={rooms.create}
+            className="w-full py-2 rounded-lg font-bold text-sm bg-cyan-600 text-white hover:bg-cyan-500 active:scale-95 transition-all mb-3"
+          >
+            {t('rooms.create')}
+          </button>
+
+          <form onSubmit={handleJoin} className="flex gap-2 mb-4">
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder={t('rooms.codePlaceholder')}
+              maxLength={12}
+              className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-slate-800 text-white font-mono tracking-widest border border-slate-600 focus:border-cyan-400 outline-none"
+              aria-label={t('rooms.codeLabel')}
+            />
+            <button
+              type="submit"
+              disabled={!code}
+              className="py-2 px-4 rounded-lg font-bold text-sm bg-slate-600 text-white hover:bg-slate-500 disabled:opacity-50 transition-colors"
+            >
+              {t('rooms.join')}
+            </button>
+          </form>
+
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-gray-300 text-sm font-bold">{t('rooms.open')}</span>
+            <button
+              onClick={rooms.refresh}
+              className="text-xs text-gray-400 hover:text-cyan-300"
+              aria-label={t('rooms.refreshLabel')}
+            >
+              {t('rooms.refresh')}
+            </button>
+          </div>
+
+          {rooms.list.length === 0 ? (
+            <p className="text-gray-500 text-sm text-center">{t('rooms.empty')}</p>
+          ) : (
+            <ul className="flex flex-col gap-2 max-h-40 overflow-y-auto">
+              {rooms.list.map((room) => (
+                <li
+                  key={room.id}
+                  className="flex items-center justify-between bg-slate-800 rounded-lg px-3 py-2 text-sm"
+                >
+                  <span className="font-mono text-cyan-300">{room.id}</span>
+                  <span className="text-gray-400">
+                    {room.playerCount} 👤 · {statusLabel(room.status)}
+                  </span>
+                  <button
+                    onClick={() => rooms.join(room.id)}
+                    className="text-cyan-400 font-bold hover:text-cyan-300"
+                  >
+                    {t('rooms.join')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      {rooms.error && (
+        <p className="text-red-400 text-sm mt-3">⚠️ {isMessageKey(rooms.error) ? t(rooms.error) : rooms.error}</p>
+      )}
+    </div>
+  );
+}
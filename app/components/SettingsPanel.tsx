@@ -0,0 +1,290 @@
+'use client';
+
+/**
+ * Componente SettingsPanel - Configurações do jogador
+ *
+ * Responsabilidades:
+ * - Remapear as teclas de cada ação (várias teclas por ação)
+ * - Ligar/desligar o gamepad e ajustar a zona morta do analógico
+ * - Escolher o idioma e o tema de cores (canvas e interface)
+ * - Ajustar os volumes (geral, efeitos, música) e silenciar o som
+ * - Escolher a exibição do D-pad na tela
+ * - Mostrar o tempo de renderização (diagnóstico de desempenho)
+ *
+ * Tudo é salvo imediatamente em settingsStore (localStorage). Durante a
+ * captura de tecla, Escape só cancela a captura (não fecha o diálogo).
+ */
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import {
+  DEFAULT_KEY_BINDINGS,
+  INPUT_ACTIONS,
+  InputAction,
+  bindKey,
+  keyLabel,
+  unbindKey,
+} from '../lib/input';
+import { Dialog } from './Dialog';
+import { LanguageSwitcher } from './LanguageSwitcher';
+import {
+  AudioSettings,
+  DPadMode,
+  MAX_DEAD_ZONE,
+  MIN_DEAD_ZONE,
+  settingsStore,
+  updateSettings,
+} from '../lib/settings';
+import { useStoredValue } from '../lib/storage';
+import { THEMES, THEME_IDS } from '../lib/themes';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const DPAD_OPTIONS: DPadMode[] = ['auto', 'on', 'off'];
+
+/** Controles de volume, na ordem exibida */
+const VOLUME_CONTROLS = [
+  ['master', 'settings.masterVolume'],
+  ['sfx', 'settings.sfxVolume'],
+  ['music', 'settings.musicVolume'],
+] as const;
+
+/**
+ * Nomes dos gamepads conectados, um por linha
+ * Texto em vez de lista para o snapshot ser estável entre leituras
+ */
+function subscribeGamepads(notify: () => void) {
+  window.addEventListener('gamepadconnected', notify);
+  window.addEventListener('gamepaddisconnected', notify);
+  return () => {
+    window.removeEventListener('gamepadconnected', notify);
+    window.removeEventListener('gamepaddisconnected', notify);
+  };
+}
+
+function connectedGamepads(): string {
+  if (typeof navigator.getGamepads !== 'function') return '';
+  return navigator
+    .getGamepads()
+    .filter((pad) => pad !== null)
+    .map((pad) => pad.id)
+    .join('\n');
+}
+
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+  const settings = useStoredValue(settingsStore);
+  const { t } = useI18n();
+  const [capturing, setCapturing] = useState<InputAction | null>(null);
+  const gamepads = useSyncExternalStore(subscribeGamepads, connectedGamepads, () => '');
+
+  /**
+   * Efeito: Capturar a próxima tecla para a ação escolhida
+   * Escape cancela a captura
+   */
+  useEffect(() => {
+    if (!capturing) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key !== 'Escape') {
+        updateSettings({ keyBindings: bindKey(settingsStore.get().keyBindings, capturing, event.key) });
+      }
+      setCapturing(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [capturing]);
+
+  return (
+    <Dialog
+      title={t('settings.title')}
+      onClose={onClose}
+      className="border-cyan-500 max-h-[85vh]"
+      titleClassName="text-cyan-300"
+    >
+      {/* Idioma */}
+      <section className="mb-6">
+        <h3 className="text-cyan-400 font-bold mb-3">{t('settings.language')}</h3>
+        <LanguageSwitcher className="w-full" />
+      </section>
+
+      {/* Tema */}
+      <section className="mb-6">
+        <h3 className="text-cyan-400 font-bold mb-3">{t('settings.theme')}</h3>
+        <div className="grid grid-cols-2 gap-2">
+          {THEME_IDS.map((id) => {
+            const { canvas } = THEMES[id];
+            return (
+              <button
+                key={id}
+                onClick={() => updateSettings({ theme: id })}
+                aria-pressed={settings.theme === id}
+                className={`flex items-center gap-2 text-left text-sm px-3 py-2 rounded-lg border-2 ${
+                  settings.theme === id ? 'border-cyan-400 bg-slate-700' : 'border-slate-600 hover:bg-slate-700'
+                }`}
+              >
+                <span className="flex shrink-0 rounded overflow-hidden border border-slate-500" aria-hidden>
+                  {[canvas.background, canvas.playerSnake, canvas.otherSnake, canvas.food].map((color) => (
+                    <span key={color} className="w-3 h-5" style={{ backgroundColor: color }} />
+                  ))}
+                </span>
+                <span className="text-gray-200">{t(`theme.${id}`)}</span>
+              </button>
+            );
+          })}
+        </div>
+      </section>
+
+      {/* Som */}
+      <section className="mb-6">
+        <h3 className="text-cyan-400 font-bold mb-3">{t('settings.audio')}</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-200 mb-3">
+          <input
+            type="checkbox"
+            checked={settings.audio.muted}
+            onChange={(event) => updateSettings({ audio: { ...settings.audio, muted: event.target.checked } })}
+          />
+          {t('settings.mute')}
+        </label>
+        {VOLUME_CONTROLS.map(([channel, labelKey]) => (
+          <label key={channel} className="flex items-center gap-3 text-sm text-gray-200 mb-2">
+            <span className="w-36">{t(labelKey)}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.audio[channel]}
+              disabled={settings.audio.muted}
+              onChange={(event) => {
+                const audio: AudioSettings = { ...settings.audio, [channel]: Number(event.target.value) };
+                updateSettings({ audio });
+              }}
+              className="flex-1"
+            />
+            <span className="w-10 text-right">{Math.round(settings.audio[channel] * 100)}%</span>
+          </label>
+        ))}
+        <p className="text-gray-500 text-xs mt-2">{t('settings.audioHint')}</p>
+      </section>
+
+      {/* Teclas */}
+      <section className="mb-6">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-cyan-400 font-bold">{t('settings.keys')}</h3>
+          <button
+            onClick={() => updateSettings({ keyBindings: DEFAULT_KEY_BINDINGS })}
+            className="text-xs text-gray-400 hover:text-white"
+          >
+            {t('settings.restoreDefaults')}
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          {INPUT_ACTIONS.map((action) => (
+            <div key={action} className="flex items-center gap-2 flex-wrap bg-slate-700 rounded-lg px-3 py-2">
+              <span className="w-28 text-sm text-gray-200">{t(`action.${action}`)}</span>
+              {settings.keyBindings[action].map((key) => (
+                <button
+                  key={key}
+                  onClick={() => updateSettings({ keyBindings: unbindKey(settings.keyBindings, action, key) })}
+                  title={t('settings.removeKey')}
+                  className="text-sm bg-slate-900 text-white px-2 py-1 rounded border border-slate-500 hover:border-red-400"
+                >
+                  {keyLabel(key, t)} ✕
+                </button>
+              ))}
+              <button
+                onClick={() => setCapturing(action)}
+                className={`text-xs px-2 py-1 rounded ${
+                  capturing === action
+                    ? 'bg-yellow-500 text-black animate-pulse'
+                    : 'bg-cyan-600 text-white hover:bg-cyan-500'
+                }`}
+              >
+                {capturing === action ? t('settings.pressKey') : t('settings.addKey')}
+              </button>
+            </div>
+          ))}
+        </div>
+        <p className="text-gray-500 text-xs mt-2">
+          {t('settings.keyHint')}
+        </p>
+      </section>
+
+      {/* Gamepad */}
+      <section className="mb-6">
+        <h3 className="text-cyan-400 font-bold mb-3">{t('settings.gamepad')}</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-200 mb-3">
+          <input
+            type="checkbox"
+            checked={settings.gamepad.enabled}
+            onChange={(event) => updateSettings({ gamepad: { ...settings.gamepad, enabled: event.target.checked } })}
+          />
+          {t('settings.gamepadEnabled')}
+        </label>
+        <label className="flex items-center gap-3 text-sm text-gray-200">
+          {t('settings.deadZone')}
+          <input
+            type="range"
+            min={MIN_DEAD_ZONE}
+            max={MAX_DEAD_ZONE}
+            step={0.05}
+            value={settings.gamepad.deadZone}
+            disabled={!settings.gamepad.enabled}
+            onChange={(event) =>
+              updateSettings({ gamepad: { ...settings.gamepad, deadZone: Number(event.target.value) } })
+            }
+            className="flex-1"
+          />
+          <span className="w-10 text-right">{Math.round(settings.gamepad.deadZone * 100)}%</span>
+        </label>
+        <p className="text-gray-500 text-xs mt-2">
+          {gamepads
+            ? t('settings.gamepadConnected', { names: gamepads.split('\n').join(', ') })
+            : t('settings.gamepadNone')}
+        </p>
+      </section>
+
+      {/* D-pad */}
+      <section className="mb-6">
+        <h3 className="text-cyan-400 font-bold mb-3">{t('settings.dpad')}</h3>
+        <select
+          value={settings.dpad}
+          onChange={(event) => updateSettings({ dpad: event.target.value as DPadMode })}
+          className="w-full bg-slate-700 text-white rounded-lg px-3 py-2"
+        >
+          {DPAD_OPTIONS.map((value) => (
+            <option key={value} value={value}>
+              {t(`settings.dpad.${value}`)}
+            </option>
+          ))}
+        </select>
+      </section>
+
+      {/* Desempenho */}
+      <section className="mb-6">
+        <h3 className="text-cyan-400 font-bold mb-3">{t('settings.performance')}</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-200">
+          <input
+            type="checkbox"
+            checked={settings.showFrameTime}
+            onChange={(event) => updateSettings({ showFrameTime: event.target.checked })}
+          />
+          {t('settings.showFrameTime')}
+        </label>
+      </section>
+
+      <button
+        onClick={onClose}
+        className="w-full py-3 px-6 rounded-lg font-bold bg-cyan-600 text-white hover:bg-cyan-500 transition-colors"
+      >
+        {t('common.close')}
+      </button>
+    </Dialog>
+  );
+}
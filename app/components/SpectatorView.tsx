@@ -0,0 +1,119 @@
+'use client';
+
+/**
+ * Componente SpectatorView - Assistir a partida sem jogar
+ *
+ * Responsabilidades:
+ * - Renderizar o gameState ao vivo sem enviar movimentos
+ * - Destacar e seguir a cobra escolhida
+ * - Mostrar placar e efeitos ativos da cobra escolhida
+ * - Mostrar os emotes do chat sobre as cobras
+ */
+
+import { GameCanvas } from './GameCanvas';
+import { useI18n } from '../hooks/useI18n';
+import { useNow } from '../hooks/useNow';
+import { useSpectator } from '../hooks/useSpectator';
+import { effectInfo, effectName } from '../lib/catalog';
+import type { EmoteBubble } from '../lib/chat';
+import { displayName } from '../lib/profile';
+import type { ActiveEffect, GameState } from '../lib/protocol';
+
+interface SpectatorViewProps {
+  gameState: GameState;
+  playerId: string | null;
+  /** Relógio do servidor (SessionClock.serverNow), para os efeitos */
+  serverNow: () => number;
+  onLeave: () => void;
+  /** Emotes em exibição (ChatControls.emotes) */
+  emotes?: EmoteBubble[];
+}
+
+/**
+ * Segundos restantes de um efeito
+ */
+function secondsLeft(effect: ActiveEffect, now: number): number {
+  return Math.max(0, Math.ceil((effect.endTime - now) / 1000));
+}
+
+export function SpectatorView({ gameState, playerId, serverNow, onLeave, emotes }: SpectatorViewProps) {
+  const { targetId, select, cycle } = useSpectator(gameState.snakes, true);
+  const { t } = useI18n();
+  const target = gameState.snakes.find((snake) => snake.id === targetId);
+  const now = useNow(!!target?.activeEffects.length, serverNow);
+  const position = gameState.snakes.findIndex((snake) => snake.id === targetId) + 1;
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <GameCanvas
+        gameState={gameState}
+        playerId={playerId}
+        prediction={false}
+        highlightId={targetId}
+        followId={targetId}
+        onSnakeClick={select}
+        emotes={emotes}
+      />
+
+      <div className="fixed top-4 left-4 w-64 p-4 bg-gray-900/95 border-2 border-yellow-400 rounded-lg z-40 text-sm">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-yellow-300 font-bold">{t('spectator.title')}</span>
+          <span className="text-gray-400 text-xs">
+            {position}/{gameState.snakes.length}
+          </span>
+        </div>
+
+        {target ? (
+          <>
+            <p className="text-white font-bold">
+              {target.id === playerId
+                ? `👤 ${displayName(target, t)} ${t('common.youTag')}`
+                : `🐍 ${displayName(target, t)}`}
+            </p>
+            <p className="text-gray-300">
+              {t('spectator.score', {
+                score: target.score,
+                status: target.alive ? t('common.alive') : t('common.dead'),
+              })}
+            </p>
+            {target.activeEffects.map((effect) => (
+              <p key={effect.type} className="text-gray-300 text-xs">
+                {t('spectator.effect', {
+                  effect: `${effectInfo(effect.type).emoji} ${effectName(effect.type, t)}`,
+                  seconds: secondsLeft(effect, now),
+                })}
+              </p>
+            ))}
+          </>
+        ) : (
+          <p className="text-gray-400">{t('spectator.noSnakes')}</p>
+        )}
+
+        <div className="flex gap-2 mt-3">
+          <button
+            onClick={() => cycle(-1)}
+            className="flex-1 py-1 rounded bg-slate-700 text-white hover:bg-slate-600"
+            aria-label={t('spectator.previous')}
+          >
+            ◀ Q
+          </button>
+          <button
+            onClick={() => cycle(1)}
+            className="flex-1 py-1 rounded bg-slate-700 text-white hover:bg-slate-600"
+            aria-label={t('spectator.next')}
+          >
+            E ▶
+          </button>
+        </div>
+        <p className="text-gray-500 text-xs mt-2">{t('spectator.clickHint')}</p>
+
+        <button
+          onClick={onLeave}
+          className="w-full mt-3 py-2 rounded-lg font-bold bg-cyan-500 text-white hover:bg-cyan-400 transition-colors"
+        >
+          {t('common.backToLobby')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useI18n } from '../hooks/useI18n';
+
+interface StatsChartProps {
+  title: string;
+  /** Valores em ordem cronológica */
+  values: number[];
+  /** Cor da linha (#rrggbb) */
+  color: string;
+  /** Formata os valores do eixo (mínimo e máximo) */
+  format?: (value: number) => string;
+}
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PADDING = 8;
+
+/**
+ * Gráfico de linha simples em SVG, um ponto por partida
+ */
+export function StatsChart({ title, values, color, format = String }: StatsChartProps) {
+  const { t } = useI18n();
+  const max = Math.max(...values, 1);
+  const min = Math.min(...values, 0);
+  const range = max - min || 1;
+  const step = values.length > 1 ? (WIDTH - PADDING * 2) / (values.length - 1) : 0;
+
+  const coords = values.map((value, index) => ({
+    x: PADDING + index * step,
+    y: HEIGHT - PADDING - ((value - min) / range) * (HEIGHT - PADDING * 2),
+  }));
+  const points = coords.map(({ x, y }) => `${x},${y}`).join(' ');
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-4 border border-slate-600">
+      <div className="flex justify-between text-xs text-gray-400 mb-2">
+        <span className="font-bold text-gray-200">{title}</span>
+        <span>
+          {format(min)} – {format(max)}
+        </span>
+      </div>
+      {values.length < 2 ? (
+        <p className="text-gray-500 text-sm text-center py-8">{t('stats.chartEmpty')}</p>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+          <polyline points={points} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+          {coords.map(({ x, y }, index) => (
+            <circle key={index} cx={x} cy={y} r={2.5} fill={color} />
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+}
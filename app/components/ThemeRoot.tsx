@@ -0,0 +1,27 @@
+'use client';
+
+/**
+ * Componente ThemeRoot - Aplica o tema ao documento
+ *
+ * Responsabilidades:
+ * - Manter o atributo data-theme do <html> igual ao tema salvo, para
+ *   globals.css remapear as cores do Tailwind
+ *
+ * Não renderiza nada; fica no layout raiz, acima de todas as páginas.
+ */
+
+import { useEffect } from 'react';
+import { useTheme } from '../hooks/useTheme';
+
+export function ThemeRoot() {
+  const { id } = useTheme();
+
+  /**
+   * Efeito: Sincronizar data-theme com o tema escolhido
+   */
+  useEffect(() => {
+    document.documentElement.dataset.theme = id;
+  }, [id]);
+
+  return null;
+}
@@ -4,150 +4,276 @@
  * Página Principal do Jogo
  *
  * Responsabilidades:
- * - Integrar hook WebSocket
+ * - Integrar a sessão de jogo (servidor ou motor local offline)
  * - Gerenciar transição entre Lobby e Jogo
- * - Gerenciar input do teclado
+ * - Ligar a entrada de direção (teclado, toque) à sessão
  * - Renderizar componentes apropriados
  *
  * Padrão: Composição de componentes React
  * - Lobby: Sala de espera
  * - GameCanvas: Renderização do jogo
- * - useWebSocket: Comunicação
+ * - useGameSession: Comunicação (useWebSocket ou useLocalGame)
  * - Página: Orquestração
  */
 
-import React, { useEffect, useState } from 'react';
-import { useWebSocket } from '../hooks/useWebSocket';
+import React, { Suspense, useState } from 'react';
+import { useGameSession } from '../hooks/useGameSession';
+import { useMatchRecorder } from '../hooks/useMatchRecorder';
+import { useRoomLink } from '../hooks/useRoomLink';
 import { GameCanvas } from '../components/GameCanvas';
+import { ReplayDownloadButton } from '../components/ReplayDownloadButton';
+import { SpectatorView } from '../components/SpectatorView';
+import { CountdownOverlay } from '../components/CountdownOverlay';
+import { ResultsScreen } from '../components/ResultsScreen';
+import { PersonalBestCallout } from '../components/PersonalBestCallout';
+import { DPad } from '../components/DPad';
+import { PingIndicator } from '../components/PingIndicator';
+import { ReconnectingOverlay } from '../components/ReconnectingOverlay';
+import { ChatOverlay } from '../components/ChatOverlay';
+import { useCountdown } from '../hooks/useCountdown';
+import { useDirectionInput } from '../hooks/useDirectionInput';
+import { useMatchResults } from '../hooks/useMatchResults';
+import { useGameAnnouncements } from '../hooks/useGameAnnouncements';
+import { useGameAudio } from '../hooks/useGameAudio';
+import { useI18n } from '../hooks/useI18n';
+import { canStartMatch } from '../lib/lobby';
 import Lobby from '../components/Lobby';
 
+/**
+ * Página do jogo; /game?room=ABCD entra direto na sala
+ * useRoomLink lê a URL (useSearchParams) e precisa de um Suspense acima
+ */
+export default function Game() {
+  return (
+    <Suspense fallback={null}>
+      <GameScreen />
+    </Suspense>
+  );
+}
+
 /**
  * Componente raiz da página do jogo
  *
  * Fluxo:
  * 1. Conectar ao servidor WebSocket
- * 2. Mostrar Lobby até jogo iniciar
- * 3. Ao iniciar, mostrar GameCanvas
- * 4. Capturar input de teclado
- * 5. Enviar movimentos ao servidor
+ * 2. Mostrar Lobby até jogo iniciar (ready-check e host)
+ * 3. Ao confirmar o início, mostrar a contagem regressiva e o GameCanvas
+ * 4. Capturar input (useDirectionInput) após a contagem
+ * 5. Enviar movimentos ao servidor, um por passo da cobra
  * 6. Renderizar estado recebido
+ * 7. Sem cobra viva (morto ou entrou no meio), assistir como espectador
+ * 8. Com status 'finished', mostrar o resultado da partida
  */
-export default function Game() {
-  const { gameState, lobbyStatus, socket, isConnected, sendMove, playerId } = useWebSocket();
-  const [lastKeyTime, setLastKeyTime] = useState(0);
-  const [showGame, setShowGame] = useState(false);
+function GameScreen() {
+  const {
+    gameState,
+    lobbyStatus,
+    isConnected,
+    connectionFailed,
+    isReconnecting,
+    reconnectAttempt,
+    retryConnection,
+    sendMove,
+    startGame,
+    setReady,
+    startsAt,
+    isStarting,
+    startError,
+    playerId,
+    lastDirection,
+    protocolError,
+    isOffline,
+    playOffline,
+    rooms,
+    chat,
+    clock,
+  } = useGameSession();
+  const replay = useMatchRecorder(gameState, playerId);
+  const { results, isPersonalBest, dismiss: dismissResults } = useMatchResults(
+    gameState,
+    replay.recording,
+    playerId
+  );
+  useGameAnnouncements(gameState, playerId, results);
+  const { t } = useI18n();
+  useRoomLink(rooms, isConnected);
+  const [leftMatch, setLeftMatch] = useState(false);
+  const [countdownFor, setCountdownFor] = useState(startsAt);
+  const [seenStatus, setSeenStatus] = useState(gameState?.status);
+  const secondsLeft = useCountdown(startsAt, clock.serverNow);
+  const countingDown = secondsLeft > 0;
+  useGameAudio(gameState, playerId, secondsLeft);
+  // Início confirmado, aguardando a contagem ou o primeiro estado 'playing'
+  const matchStarting = startsAt !== null && gameState?.status !== 'playing';
+
+  // Uma partida nova confirmada, ou a volta ao lobby, traz de volta quem
+  // saiu da anterior
+  if (startsAt !== countdownFor) {
+    setCountdownFor(startsAt);
+    setLeftMatch(false);
+  }
+  if (gameState?.status !== seenStatus) {
+    setSeenStatus(gameState?.status);
+    if (gameState?.status === 'lobby') setLeftMatch(false);
+  }
 
   /**
-   * Efeito: Alternar entre Lobby e Game baseado no status
-   * gameState pode estar null inicialmente, então verifica explicitamente
+   * Alternar entre Lobby e Game baseado no status
+   * gameState pode estar null inicialmente (ainda carregando, fica no lobby)
    */
-  useEffect(() => {
-    if (gameState && gameState.status === 'playing') {
-      setShowGame(true);
-    } else if (gameState && gameState.status === 'lobby') {
-      setShowGame(false);
-    } else if (gameState === null) {
-      // Ainda carregando, mantém no lobby
-      setShowGame(false);
-    }
-  }, [gameState?.status, gameState]);
+  const showGame = gameState?.status === 'playing';
+
+  const ownSnake = gameState?.snakes.find((snake) => snake.id === playerId);
+  const isPlayerAlive = !!ownSnake?.alive;
 
   /**
-   * Efeito: Capturar eventos de teclado
-   *
-   * Mapa de teclas:
-   * - ArrowUp / W     → Cima (0, -1)
-   * - ArrowDown / S   → Baixo (0, 1)
-   * - ArrowLeft / A   → Esquerda (-1, 0)
-   * - ArrowRight / D  → Direita (1, 0)
-   *
-   * Debounce: Evita enviar múltiplos movimentos muito rápido
-   * Mínimo de 50ms entre movimentos
+   * Entrada de direção: teclado, deslizes e D-pad passam pela fila de curvas
+   * (sem reversões, uma curva por passo). Só quem está jogando envia, e
+   * nada é enviado durante a contagem regressiva nem sem conexão (a fila
+   * é descartada ao cair, para não soltar curvas velhas ao reconectar)
    */
-  useEffect(() => {
-    if (!showGame) return; // Só processa input durante o jogo
-
-    const handleKeyDown = (event: KeyboardEvent) => {
-      const now = Date.now();
-
-      // Debounce: não processar movimentos muito frequentes
-      if (now - lastKeyTime < 50) return;
-
-      let direction: { dx: number; dy: number } | null = null;
-
-      switch (event.key.toLowerCase()) {
-        case 'arrowup':
-        case 'w':
-          direction = { dx: 0, dy: -1 };
-          break;
-        case 'arrowdown':
-        case 's':
-          direction = { dx: 0, dy: 1 };
-          break;
-        case 'arrowleft':
-        case 'a':
-          direction = { dx: -1, dy: 0 };
-          break;
-        case 'arrowright':
-        case 'd':
-          direction = { dx: 1, dy: 0 };
-          break;
-        default:
-          return;
-      }
-
-      if (direction) {
-        event.preventDefault();
-        sendMove(direction);
-        setLastKeyTime(now);
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [sendMove, lastKeyTime, showGame]);
+  const canSteer = showGame && isPlayerAlive && !countingDown && isConnected;
+  const enqueueMove = useDirectionInput(sendMove, gameState, playerId, canSteer);
 
   /**
    * UI: Status de conexão
    */
   const connectionStatus = (
     <div className="fixed top-4 right-4 text-sm">
-      <div
-        className={`px-4 py-2 rounded ${
-          isConnected
-            ? 'bg-green-500 text-white'
-            : 'bg-red-500 text-white animate-pulse'
-        }`}
-      >
-        {isConnected ? '🟢 Conectado' : '🔴 Desconectado'}
+      <div className="flex justify-end gap-2">
+        {!isOffline && isConnected && <PingIndicator rttMs={clock.rttMs} jitterMs={clock.jitterMs} />}
+        <div
+          className={`px-4 py-2 rounded ${
+            isOffline
+              ? 'bg-gray-600 text-white'
+              : isConnected
+                ? 'bg-green-500 text-white'
+                : 'bg-yellow-600 text-white animate-pulse'
+          }`}
+        >
+          {isOffline
+            ? t('connection.offline')
+            : isConnected
+              ? t('connection.connected')
+              : t('connection.reconnectingBadge')}
+        </div>
       </div>
       {playerId && (
-        <div className="text-gray-400 text-xs mt-2">ID: {playerId.slice(0, 8)}...</div>
+        <div className="text-gray-400 text-xs mt-2">{t('game.playerId', { id: playerId.slice(0, 8) })}</div>
+      )}
+      {/* Payload inválido do servidor: o último estado válido continua na tela */}
+      {protocolError && (
+        <div className="mt-2 max-w-xs text-xs bg-yellow-600 text-white px-4 py-2 rounded">
+          {t('connection.protocolError', { event: protocolError.event })}
+        </div>
       )}
     </div>
   );
 
   /**
-   * UI: Tela de carregamento
+   * Sai da tela de resultados para o lobby
+   */
+  const backToLobby = () => {
+    dismissResults();
+    setLeftMatch(true);
+  };
+
+  /**
+   * Revanche: marca pronto e pede o início se já for permitido
+   */
+  const rematch = () => {
+    backToLobby();
+    if (!isOffline) setReady(true);
+    if (canStartMatch(lobbyStatus, playerId, true)) startGame();
+  };
+
+  /**
+   * UI: Aviso de queda depois de conectado, sobre a tela atual
+   */
+  const reconnectingOverlay = isReconnecting && (
+    <ReconnectingOverlay attempt={reconnectAttempt} onRetry={retryConnection} />
+  );
+
+  /**
+   * UI: Tela de carregamento (primeira conexão)
    */
-  if (!isConnected) {
+  if (!isConnected && !isReconnecting) {
     return (
       <div className="w-full h-screen bg-gray-900 flex items-center justify-center flex-col gap-4">
         <div className="animate-spin">🐍</div>
-        <p className="text-gray-400">Conectando ao servidor...</p>
-        <p className="text-gray-600 text-sm">
-          Certifique-se de que o backend está rodando em localhost:5000
-        </p>
+        <p className="text-gray-400">{t('connection.connecting')}</p>
+        <p className="text-gray-600 text-sm">{t('connection.backendHint')}</p>
+        {connectionFailed && (
+          <div className="mt-4 flex gap-3">
+            <button
+              onClick={retryConnection}
+              className="py-3 px-6 rounded-lg font-bold bg-slate-600 text-white hover:bg-slate-500 active:scale-95 transition-all"
+            >
+              {t('connection.retry')}
+            </button>
+            <button
+              onClick={playOffline}
+              className="py-3 px-6 rounded-lg font-bold bg-cyan-500 text-white hover:bg-cyan-400 active:scale-95 transition-all"
+            >
+              {t('connection.playOffline')}
+            </button>
+          </div>
+        )}
       </div>
     );
   }
 
+  /**
+   * UI: Resultado da partida encerrada
+   * Vale para quem morreu antes (espectador ou lobby) e para o último vivo
+   */
+  if (results) {
+    return (
+      <>
+        <ResultsScreen
+          results={results}
+          playerId={playerId}
+          isPersonalBest={isPersonalBest}
+          onRematch={rematch}
+          onBackToLobby={backToLobby}
+        />
+        <ReplayDownloadButton
+          isRecording={replay.isRecording}
+          recording={replay.recording}
+          onDownload={replay.download}
+        />
+      </>
+    );
+  }
+
   /**
    * UI: Mostrar Lobby ou Jogo
-   * Baseado apenas no gameState?.status para sincronizar todos os clientes
+   * Baseado no gameState?.status e na contagem confirmada pelo servidor,
+   * para sincronizar todos os clientes; startFailed cancela a contagem
+   * e devolve todos ao lobby
    */
-  if (!showGame) {
-    return <Lobby socket={socket} />;
+  if ((!showGame && !matchStarting) || leftMatch) {
+    return (
+      <>
+        <Lobby
+          startGame={startGame}
+          lobbyStatus={lobbyStatus}
+          setReady={isOffline ? undefined : setReady}
+          isStarting={isStarting}
+          startError={startError}
+          onSpectate={showGame ? () => setLeftMatch(false) : undefined}
+          rooms={rooms}
+          playerId={playerId}
+          chat={chat}
+        />
+        {reconnectingOverlay}
+        <ReplayDownloadButton
+          isRecording={replay.isRecording}
+          recording={replay.recording}
+          onDownload={replay.download}
+        />
+      </>
+    );
   }
 
   /**
@@ -156,13 +282,34 @@ export default function Game() {
   return (
     <div className="w-full min-h-screen bg-gray-900 flex items-center justify-center py-8">
       {connectionStatus}
-      {gameState && gameState.status === 'playing' ? (
-        <GameCanvas gameState={gameState} playerId={playerId} />
-      ) : (
-        <div className="text-center text-gray-400">
-          <p className="animate-pulse">Aguardando estado do jogo...</p>
-        </div>
-      )}
+      {reconnectingOverlay}
+      <ReplayDownloadButton
+        isRecording={replay.isRecording}
+        recording={replay.recording}
+        onDownload={replay.download}
+      />
+      <CountdownOverlay secondsLeft={secondsLeft} />
+      <PersonalBestCallout score={ownSnake?.score} />
+      {isPlayerAlive && !countingDown && <DPad onMove={enqueueMove} />}
+      {chat && <ChatOverlay chat={chat} players={gameState?.snakes ?? []} />}
+      {showGame &&
+        gameState &&
+        (isPlayerAlive ? (
+          <GameCanvas
+            gameState={gameState}
+            playerId={playerId}
+            predictedDirection={lastDirection}
+            emotes={chat?.emotes}
+          />
+        ) : (
+          <SpectatorView
+            gameState={gameState}
+            playerId={playerId}
+            serverNow={clock.serverNow}
+            onLeave={() => setLeftMatch(true)}
+            emotes={chat?.emotes}
+          />
+        ))}
     </div>
   );
 }
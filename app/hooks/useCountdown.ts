@@ -0,0 +1,56 @@
+/**
+ * Hook useCountdown - Segundos restantes até um instante
+ *
+ * Responsabilidades:
+ * - Contar os segundos até o início confirmado da partida
+ * - Re-renderizar só quando o número exibido muda
+ * - Comparar com o relógio do servidor, que definiu o instante alvo
+ *
+ * Padrão: External Store
+ * - O relógio é lido com useSyncExternalStore; um intervalo curto
+ *   avisa o React até o instante alvo passar
+ *
+ * Uso:
+ * const secondsLeft = useCountdown(startsAt, clock.serverNow);
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+
+/** Frequência de checagem do relógio */
+const POLL_MS = 100;
+
+/**
+ * Segundos inteiros (arredondados para cima) até target; 0 quando passou
+ */
+function secondsUntil(target: number | null, now: () => number): number {
+  if (target === null) return 0;
+  return Math.max(0, Math.ceil((target - now()) / 1000));
+}
+
+/**
+ * Hook da contagem regressiva
+ *
+ * @param target - Instante alvo (epoch ms), ou null sem contagem
+ * @param now - Relógio em que target foi definido (padrão: o do navegador)
+ * @returns Segundos restantes; 0 quando não há contagem em andamento
+ */
+export function useCountdown(target: number | null, now: () => number = Date.now): number {
+  const subscribe = useCallback(
+    (notify: () => void) => {
+      if (target === null) return () => {};
+
+      const id = setInterval(() => {
+        notify();
+        if (now() >= target) clearInterval(id);
+      }, POLL_MS);
+      return () => clearInterval(id);
+    },
+    [target, now]
+  );
+
+  return useSyncExternalStore(
+    subscribe,
+    () => secondsUntil(target, now),
+    () => 0
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * Hook useDirectionInput - Entrada de direção do jogador
+ *
+ * Responsabilidades:
+ * - Escutar o teclado (teclas configuradas), gamepads e gestos de
+ *   deslize durante a partida
+ * - Passar cada curva pela DirectionQueue (sem reversões nem repetições)
+ * - Enviar no máximo uma curva por passo da cobra local
+ *
+ * Padrão: Custom React Hook
+ * - Único ponto de entrada de movimentos para as duas páginas
+ * - Outros controles (D-pad) usam o enqueue devolvido
+ *
+ * Uso:
+ * const enqueue = useDirectionInput(sendMove, gameState, playerId, canSteer);
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DirectionQueue, directionForKey, isTextEntry } from '../lib/input';
+import { observedDirection } from '../lib/interpolation';
+import type { Direction, GameState, Snake } from '../lib/protocol';
+import { settingsStore } from '../lib/settings';
+import { useStoredValue } from '../lib/storage';
+import { useGamepad } from './useGamepad';
+import { useSwipe } from './useSwipe';
+
+/**
+ * Hook de entrada de direção
+ *
+ * @param sendMove - Envio do movimento da sessão ativa
+ * @param gameState - Estado atual; cada passo da cobra local libera uma curva
+ * @param playerId - Jogador local
+ * @param enabled - Aceita entrada (jogando, vivo e fora da contagem)
+ * @returns enqueue, para controles adicionais
+ */
+export function useDirectionInput(
+  sendMove: (direction: Direction) => void,
+  gameState: GameState | null,
+  playerId: string | null,
+  enabled: boolean
+): (direction: Direction) => void {
+  const [queue] = useState(() => new DirectionQueue());
+  const { keyBindings, gamepad } = useStoredValue(settingsStore);
+  const sendMoveRef = useRef(sendMove);
+  /** Cobra local no estado mais recente e no passo anterior */
+  const ownSnakeRef = useRef<Snake | undefined>(undefined);
+  const lastStepRef = useRef<Snake | undefined>(undefined);
+
+  const ownSnake = gameState?.snakes.find((snake) => snake.id === playerId);
+  const head = ownSnake?.body[0];
+  const headKey = head ? `${head.x},${head.y}` : null;
+
+  /**
+   * Efeito: Guardar o sendMove e a cobra local mais recentes
+   */
+  useEffect(() => {
+    sendMoveRef.current = sendMove;
+    ownSnakeRef.current = ownSnake;
+  }, [sendMove, ownSnake]);
+
+  /**
+   * Envia a próxima curva da fila, se permitido neste passo
+   */
+  const flush = useCallback(() => {
+    const next = queue.release();
+    if (next) sendMoveRef.current(next);
+  }, [queue]);
+
+  /**
+   * Pede uma curva; a primeira do passo sai na hora
+   */
+  const enqueue = useCallback(
+    (direction: Direction) => {
+      if (!enabled) return;
+      if (queue.push(direction)) flush();
+    },
+    [enabled, queue, flush]
+  );
+
+  /**
+   * Efeito: Esvaziar a fila ao ganhar ou perder o controle
+   */
+  useEffect(() => {
+    queue.reset();
+  }, [enabled, queue]);
+
+  /**
+   * Efeito: A cabeça mudou de célula → novo passo, libera a próxima curva
+   */
+  useEffect(() => {
+    const current = ownSnakeRef.current;
+    if (headKey === null || !current) return;
+
+    queue.step(observedDirection(lastStepRef.current, current));
+    lastStepRef.current = current;
+    flush();
+  }, [headKey, queue, flush]);
+
+  /**
+   * Efeito: Teclado, com o mapeamento salvo nas configurações
+   */
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTextEntry(event.key, event.target)) return;
+      const direction = directionForKey(keyBindings, event.key);
+      if (!direction) return;
+
+      event.preventDefault();
+      enqueue(direction);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, enqueue, keyBindings]);
+
+  useGamepad(enqueue, enabled && gamepad.enabled, gamepad.deadZone);
+  useSwipe(enqueue, enabled);
+
+  return enqueue;
+}
@@ -0,0 +1,55 @@
+/**
+ * Hook useGameAnnouncements - Anuncia a partida para leitores de tela
+ *
+ * Responsabilidades:
+ * - Comparar cada GameState novo com o anterior e anunciar as mudanças
+ *   (frutas, pontuação, efeitos, mortes, início/fim)
+ * - Anunciar o resultado final quando ele fica disponível
+ * - Frases no idioma da interface (useI18n)
+ *
+ * Padrão: Efeitos que só escrevem no announcer (store externo)
+ * - Não guarda estado React; o texto aparece na LiveRegion do layout
+ */
+
+import { useEffect, useRef } from 'react';
+import { describeChanges, describeResults } from '../lib/announcements';
+import { announce } from '../lib/announcer';
+import { useI18n } from './useI18n';
+import type { GameState } from '../lib/protocol';
+import type { MatchResults } from '../lib/results';
+
+/**
+ * @param gameState - Estado atual (null antes do primeiro)
+ * @param playerId - Jogador local (null para espectadores)
+ * @param results - Resultado final, quando a partida acaba
+ */
+export function useGameAnnouncements(
+  gameState: GameState | null,
+  playerId: string | null,
+  results: MatchResults | null
+) {
+  const i18n = useI18n();
+  const previousRef = useRef<GameState | null>(null);
+  const announcedResultsRef = useRef<MatchResults | null>(null);
+
+  /**
+   * Efeito: Anunciar o que mudou desde o último estado
+   */
+  useEffect(() => {
+    const previous = previousRef.current;
+    if (!gameState || gameState === previous) return;
+
+    previousRef.current = gameState;
+    describeChanges(previous, gameState, playerId, i18n).forEach(announce);
+  }, [gameState, playerId, i18n]);
+
+  /**
+   * Efeito: Anunciar o resultado uma única vez por partida
+   */
+  useEffect(() => {
+    if (!results || results === announcedResultsRef.current) return;
+
+    announcedResultsRef.current = results;
+    announce(describeResults(results, playerId, i18n));
+  }, [results, playerId, i18n]);
+}
@@ -0,0 +1,58 @@
+/**
+ * Hook useGameAudio - Sons e música da partida
+ *
+ * Responsabilidades:
+ * - Comparar cada GameState novo com o anterior e tocar os sons das
+ *   mudanças (frutas, efeitos, morte, início/fim)
+ * - Bipar a cada segundo da contagem regressiva
+ * - Tocar a música de fundo enquanto a partida está em andamento
+ *
+ * Padrão: Efeitos que só chamam o AudioEngine (lib/audio.ts)
+ * - Não guarda estado React; volumes e destravamento ficam no AudioRoot
+ *
+ * Uso:
+ * useGameAudio(gameState, playerId, secondsLeft);
+ */
+
+import { useEffect, useRef } from 'react';
+import { audio } from '../lib/audio';
+import type { GameState } from '../lib/protocol';
+import { soundsForChanges } from '../lib/sounds';
+
+/**
+ * @param gameState - Estado atual (null antes do primeiro)
+ * @param playerId - Jogador local (null para espectadores)
+ * @param secondsLeft - Segundos da contagem regressiva (useCountdown)
+ */
+export function useGameAudio(gameState: GameState | null, playerId: string | null, secondsLeft: number) {
+  const previousRef = useRef<GameState | null>(null);
+  const playing = gameState?.status === 'playing';
+
+  /**
+   * Efeito: Tocar o que mudou desde o último estado
+   */
+  useEffect(() => {
+    const previous = previousRef.current;
+    if (!gameState || gameState === previous) return;
+
+    previousRef.current = gameState;
+    soundsForChanges(previous, gameState, playerId).forEach((id) => audio.play(id));
+  }, [gameState, playerId]);
+
+  /**
+   * Efeito: Um bipe por segundo da contagem (o "vai" vem com o início)
+   */
+  useEffect(() => {
+    if (secondsLeft > 0) audio.play('countdown');
+  }, [secondsLeft]);
+
+  /**
+   * Efeito: Música durante a partida
+   */
+  useEffect(() => {
+    if (!playing) return;
+
+    audio.setMusic(true);
+    return () => audio.setMusic(false);
+  }, [playing]);
+}
@@ -0,0 +1,45 @@
+/**
+ * Hook useGameSession - Escolhe entre o servidor e o motor local
+ *
+ * Responsabilidades:
+ * - Manter as duas sessões (online e offline) montadas
+ * - Expor a sessão ativa com a interface do useWebSocket
+ * - Permitir trocar para o modo offline quando o backend não responde
+ * - Entregar às duas sessões o perfil salvo (apelido e cor)
+ *
+ * Uso:
+ * const { gameState, sendMove, isOffline, playOffline } = useGameSession();
+ */
+
+import { useState } from 'react';
+import { useLocalGame } from './useLocalGame';
+import { UseWebSocketReturn, useWebSocket } from './useWebSocket';
+import { profileStore } from '../lib/profile';
+import { useStoredValue } from '../lib/storage';
+
+interface UseGameSessionReturn extends UseWebSocketReturn {
+  isOffline: boolean;
+  playOffline: () => void;
+}
+
+/**
+ * Hook da sessão de jogo ativa
+ *
+ * @returns Sessão online, ou a local após playOffline()
+ */
+export function useGameSession(): UseGameSessionReturn {
+  const profile = useStoredValue(profileStore);
+  const online = useWebSocket(profile);
+  const local = useLocalGame(profile);
+  const [isOffline, setIsOffline] = useState(false);
+
+  const session = isOffline ? local : online;
+
+  return {
+    ...session,
+    // A falha de conexão é sempre a do servidor, para a tela de carregamento
+    connectionFailed: online.connectionFailed,
+    isOffline,
+    playOffline: () => setIsOffline(true),
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Hook useGamepad - Controles de gamepad viram comandos de direção
+ *
+ * Responsabilidades:
+ * - Ler os gamepads conectados a cada frame (Gamepad API)
+ * - Converter direcional e analógico esquerdo em direção
+ * - Disparar só quando a direção indicada muda (segurar não repete)
+ *
+ * Uso:
+ * useGamepad(enqueue, isPlaying, settings.gamepad.deadZone);
+ */
+
+import { useEffect, useRef } from 'react';
+import { gamepadDirection, sameDirection } from '../lib/input';
+import type { Direction } from '../lib/protocol';
+
+/**
+ * Hook de gamepad
+ *
+ * @param onDirection - Chamado a cada nova direção indicada
+ * @param enabled - Liga/desliga a leitura
+ * @param deadZone - Zona morta do analógico (0..1)
+ */
+export function useGamepad(onDirection: (direction: Direction) => void, enabled: boolean, deadZone: number): void {
+  const onDirectionRef = useRef(onDirection);
+
+  /**
+   * Efeito: Guardar o callback mais recente sem reiniciar a leitura
+   */
+  useEffect(() => {
+    onDirectionRef.current = onDirection;
+  }, [onDirection]);
+
+  /**
+   * Efeito: Ler os gamepads a cada frame enquanto habilitado
+   */
+  useEffect(() => {
+    if (!enabled || typeof navigator.getGamepads !== 'function') return;
+
+    let frameId = 0;
+    let last: Direction | null = null;
+
+    const poll = () => {
+      frameId = requestAnimationFrame(poll);
+
+      let direction: Direction | null = null;
+      for (const pad of navigator.getGamepads()) {
+        direction = pad ? gamepadDirection(pad, deadZone) : null;
+        if (direction) break;
+      }
+
+      if (direction && !(last && sameDirection(direction, last))) onDirectionRef.current(direction);
+      last = direction;
+    };
+
+    frameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frameId);
+  }, [enabled, deadZone]);
+}
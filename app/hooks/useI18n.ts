@@ -0,0 +1,42 @@
+/**
+ * Hook useI18n - Traduções no idioma escolhido
+ *
+ * Responsabilidades:
+ * - Usar o idioma salvo nas configurações ou, em "auto", o do navegador
+ * - Acompanhar mudanças de idioma do navegador (evento languagechange)
+ *
+ * Padrão: External Store
+ * - settingsStore com useStoredValue e navigator.languages com
+ *   useSyncExternalStore; no servidor (prerender) vale o pt-BR
+ *
+ * Uso:
+ * const { t, formatNumber } = useI18n();
+ * <p>{t('results.duration', { duration })}</p>
+ */
+
+import { useSyncExternalStore } from 'react';
+import { DEFAULT_LOCALE, I18n, Locale, detectLocale, getI18n } from '../lib/i18n';
+import { settingsStore } from '../lib/settings';
+import { useStoredValue } from '../lib/storage';
+
+function subscribeLanguages(notify: () => void) {
+  window.addEventListener('languagechange', notify);
+  return () => window.removeEventListener('languagechange', notify);
+}
+
+function browserLocale(): Locale {
+  return detectLocale(navigator.languages ?? [navigator.language]);
+}
+
+/**
+ * Idioma do navegador entre os suportados
+ */
+export function useBrowserLocale(): Locale {
+  return useSyncExternalStore(subscribeLanguages, browserLocale, () => DEFAULT_LOCALE);
+}
+
+export function useI18n(): I18n {
+  const { locale } = useStoredValue(settingsStore);
+  const detected = useBrowserLocale();
+  return getI18n(locale === 'auto' ? detected : locale);
+}
@@ -0,0 +1,131 @@
+/**
+ * Hook useLocalGame - Sessão de jogo offline com o motor local
+ *
+ * Responsabilidades:
+ * - Criar e destruir o LocalGameEngine
+ * - Expor a mesma interface do useWebSocket
+ * - Encaminhar movimentos e início de partida ao motor
+ * - Simular a contagem regressiva antes de ligar o motor
+ *
+ * Padrão: Adapter
+ * - GameCanvas, Lobby e EffectIndicator funcionam sem mudanças
+ * - Não há socket: isConnected é sempre true e não há salas nem chat
+ * - O motor usa o relógio do navegador, então serverNow é Date.now
+ *
+ * Uso:
+ * const { gameState, sendMove, startGame } = useLocalGame(profile);
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { INITIAL_CLOCK_STATS } from '../lib/clockSync';
+import { LOCAL_PLAYER_ID, LocalGameEngine } from '../lib/engine/LocalGameEngine';
+import type { PlayerProfile } from '../lib/profile';
+import type { Direction, GameState, LobbyStatus } from '../lib/protocol';
+import type { SessionClock, UseWebSocketReturn } from './useWebSocket';
+
+/** Duração da contagem regressiva antes da partida local */
+const COUNTDOWN_MS = 3000;
+
+const noop = () => {};
+
+/** Sem servidor: relógio local, sem latência */
+const LOCAL_CLOCK: SessionClock = { ...INITIAL_CLOCK_STATS, serverNow: Date.now };
+
+/**
+ * Hook do modo offline
+ *
+ * @param profile - Apelido e cor da cobra local
+ * @returns Objeto com a mesma forma do useWebSocket
+ */
+export function useLocalGame(profile: PlayerProfile): UseWebSocketReturn {
+  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [lastDirection, setLastDirection] = useState<Direction | null>(null);
+  const engineRef = useRef<LocalGameEngine | null>(null);
+  const profileRef = useRef(profile);
+  const [startsAt, setStartsAt] = useState<number | null>(null);
+  const countdownRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Sozinho no lobby, o jogador local é o host e está sempre pronto
+  const lobbyStatus = useMemo<LobbyStatus>(
+    () => ({
+      status: 'lobby',
+      playerCount: 1,
+      players: [{ id: LOCAL_PLAYER_ID, name: profile.name, color: profile.color, ready: true }],
+      hostId: LOCAL_PLAYER_ID,
+    }),
+    [profile]
+  );
+
+  /**
+   * Efeito: Guardar o perfil para a próxima partida
+   */
+  useEffect(() => {
+    profileRef.current = profile;
+  }, [profile]);
+
+  /**
+   * Efeito: Criar o motor local
+   * O loop só roda após startGame
+   */
+  useEffect(() => {
+    const engine = new LocalGameEngine((state) => {
+      setGameState(state);
+      if (state.status !== 'playing') setStartsAt(null);
+    });
+    engineRef.current = engine;
+
+    return () => {
+      if (countdownRef.current) clearTimeout(countdownRef.current);
+      engine.stop();
+      engineRef.current = null;
+    };
+  }, []);
+
+  /**
+   * Envia movimento ao motor local
+   *
+   * @param direction - Direção desejada { dx, dy }
+   */
+  const sendMove = useCallback((direction: Direction) => {
+    engineRef.current?.setDirection(direction);
+    setLastDirection(direction);
+  }, []);
+
+  /**
+   * Inicia (ou reinicia) a partida local após a contagem regressiva
+   */
+  const startGame = useCallback(() => {
+    if (countdownRef.current) clearTimeout(countdownRef.current);
+    setLastDirection(null);
+    setStartsAt(Date.now() + COUNTDOWN_MS);
+    countdownRef.current = setTimeout(() => {
+      countdownRef.current = null;
+      engineRef.current?.start(profileRef.current);
+    }, COUNTDOWN_MS);
+  }, []);
+
+  const setReady = useCallback(() => {}, []);
+
+  return {
+    gameState,
+    lobbyStatus,
+    socket: null,
+    isConnected: true,
+    connectionFailed: false,
+    isReconnecting: false,
+    reconnectAttempt: 0,
+    retryConnection: noop,
+    sendMove,
+    startGame,
+    setReady,
+    startsAt,
+    isStarting: false,
+    startError: null,
+    playerId: LOCAL_PLAYER_ID,
+    lastDirection,
+    protocolError: null,
+    rooms: null,
+    chat: null,
+    clock: LOCAL_CLOCK,
+  };
+}
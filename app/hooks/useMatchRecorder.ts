@@ -0,0 +1,57 @@
+/**
+ * Hook useMatchRecorder - Grava a partida em andamento
+ *
+ * Responsabilidades:
+ * - Alimentar o MatchRecorder com cada gameState recebido
+ * - Expor se há gravação em andamento e a última partida gravada
+ * - Oferecer o download da gravação
+ *
+ * Uso:
+ * const { isRecording, recording, download } = useMatchRecorder(gameState, playerId);
+ */
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import type { GameState } from '../lib/protocol';
+import { MatchRecorder, MatchRecording, downloadRecording } from '../lib/replay';
+
+interface UseMatchRecorderReturn {
+  isRecording: boolean;
+  recording: MatchRecording | null;
+  download: () => void;
+}
+
+/**
+ * Hook de gravação de partidas
+ *
+ * @param gameState - Estado atual do jogo
+ * @param playerId - Jogador local
+ */
+export function useMatchRecorder(gameState: GameState | null, playerId: string | null): UseMatchRecorderReturn {
+  const [recorder] = useState(() => new MatchRecorder());
+  const { isRecording, recording } = useSyncExternalStore(
+    recorder.subscribe,
+    recorder.getSnapshot,
+    recorder.getSnapshot
+  );
+
+  /**
+   * Efeito: Registrar cada estado recebido
+   * Sem estado (saída da sala, troca de sessão, queda) a partida gravada
+   * acabou para este cliente
+   */
+  useEffect(() => {
+    if (gameState) recorder.record(gameState, playerId);
+    else recorder.finish();
+  }, [gameState, playerId, recorder]);
+
+  /**
+   * Efeito: Fechar a gravação ao desmontar (ex.: saída da página)
+   */
+  useEffect(() => () => recorder.finish(), [recorder]);
+
+  const download = useCallback(() => {
+    if (recording) downloadRecording(recording);
+  }, [recording]);
+
+  return { isRecording, recording, download };
+}
@@ -0,0 +1,68 @@
+/**
+ * Hook useMatchResults - Resultado da partida que acabou de terminar
+ *
+ * Responsabilidades:
+ * - Resumir a gravação quando o status chega a 'finished'
+ * - Salvar a partida do jogador local no histórico de estatísticas
+ * - Informar se a partida bateu o recorde pessoal
+ * - Esconder o resultado depois que o jogador o dispensa
+ *
+ * Uso:
+ * const { results, isPersonalBest, dismiss } = useMatchResults(gameState, replay.recording, playerId);
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { GameState } from '../lib/protocol';
+import type { MatchRecording } from '../lib/replay';
+import { MatchResults, summarizeMatch } from '../lib/results';
+import { bestScore, createMatchRecord, isNewBest, saveMatch, statsStore } from '../lib/stats';
+import { useStoredValue } from '../lib/storage';
+
+interface UseMatchResultsReturn {
+  /** Resultado a exibir, ou null fora da tela de fim de partida */
+  results: MatchResults | null;
+  /** A pontuação do jogador superou o recorde anterior */
+  isPersonalBest: boolean;
+  /** Fecha a tela de resultados desta partida */
+  dismiss: () => void;
+}
+
+/**
+ * Hook da tela de resultados
+ *
+ * @param gameState - Estado atual do jogo
+ * @param recording - Última partida gravada (useMatchRecorder)
+ * @param playerId - Jogador local
+ */
+export function useMatchResults(
+  gameState: GameState | null,
+  recording: MatchRecording | null,
+  playerId: string | null
+): UseMatchResultsReturn {
+  const [dismissed, setDismissed] = useState<MatchRecording | null>(null);
+  const history = useStoredValue(statsStore);
+
+  // A gravação só conta se terminou com o status 'finished'
+  const finishedMatch = recording?.frames[recording.frames.length - 1]?.state.status === 'finished' ? recording : null;
+  const results = useMemo(() => (finishedMatch ? summarizeMatch(finishedMatch) : null), [finishedMatch]);
+
+  /**
+   * Efeito: Salvar a partida encerrada no histórico local
+   * saveMatch ignora a mesma gravação salva de novo
+   */
+  useEffect(() => {
+    if (!finishedMatch || !results) return;
+    const record = createMatchRecord(finishedMatch.recordedAt, results, finishedMatch.playerId ?? playerId);
+    if (record) saveMatch(record);
+  }, [finishedMatch, results, playerId]);
+
+  const own = results?.ranking.find((player) => player.id === (finishedMatch?.playerId ?? playerId));
+  const previousBest = finishedMatch ? bestScore(history, finishedMatch.recordedAt) : null;
+  const isPersonalBest = !!own && isNewBest(own.score, previousBest);
+
+  const visible = gameState?.status === 'finished' && finishedMatch !== null && finishedMatch !== dismissed;
+
+  const dismiss = useCallback(() => setDismissed(finishedMatch), [finishedMatch]);
+
+  return { results: visible ? results : null, isPersonalBest, dismiss };
+}
@@ -0,0 +1,32 @@
+/**
+ * Hook useMediaQuery - Acompanha uma media query CSS
+ *
+ * Padrão: External Store
+ * - matchMedia lido com useSyncExternalStore; no servidor vale false
+ *
+ * Uso:
+ * const isTouch = useMediaQuery('(pointer: coarse)');
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+
+/**
+ * @param query - Media query, ex.: '(pointer: coarse)'
+ * @returns Se a query casa com a tela atual
+ */
+export function useMediaQuery(query: string): boolean {
+  const subscribe = useCallback(
+    (notify: () => void) => {
+      const list = window.matchMedia(query);
+      list.addEventListener('change', notify);
+      return () => list.removeEventListener('change', notify);
+    },
+    [query]
+  );
+
+  return useSyncExternalStore(
+    subscribe,
+    () => window.matchMedia(query).matches,
+    () => false
+  );
+}
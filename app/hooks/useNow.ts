@@ -0,0 +1,46 @@
+/**
+ * Hook useNow - Relógio para tempos restantes na interface
+ *
+ * Responsabilidades:
+ * - Dar o instante atual (epoch ms) a componentes que mostram tempo
+ *   restante, como as barras de efeito
+ * - Ler do relógio do servidor quando recebe serverNow (SessionClock)
+ * - Re-renderizar a cada intervalo só enquanto estiver ativo
+ *
+ * Padrão: External Store
+ * - O relógio é lido com useSyncExternalStore; o instante é arredondado
+ *   ao intervalo para o snapshot ficar estável entre as notificações
+ *
+ * Uso:
+ * const now = useNow(effects.length > 0, clock.serverNow);
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+
+/** Intervalo entre atualizações */
+const POLL_MS = 100;
+
+/**
+ * Hook do relógio
+ *
+ * @param active - Atualizar periodicamente (false: só lê ao renderizar)
+ * @param now - Relógio lido (padrão: o do navegador)
+ * @returns Instante atual arredondado para baixo ao intervalo
+ */
+export function useNow(active: boolean, now: () => number = Date.now): number {
+  const subscribe = useCallback(
+    (notify: () => void) => {
+      if (!active) return () => {};
+
+      const id = setInterval(notify, POLL_MS);
+      return () => clearInterval(id);
+    },
+    [active]
+  );
+
+  return useSyncExternalStore(
+    subscribe,
+    () => Math.floor(now() / POLL_MS) * POLL_MS,
+    () => 0
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * Hook useReplayPlayer - Controla a reprodução de uma gravação
+ *
+ * Responsabilidades:
+ * - Avançar o tempo de reprodução com requestAnimationFrame
+ * - Controlar play/pause, velocidade e posição na linha do tempo
+ * - Avançar ou voltar um frame de cada vez
+ *
+ * Uso:
+ * const { frame, play, pause, seek, step } = useReplayPlayer(recording);
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { MatchRecording, ReplayFrame, frameIndexAt } from '../lib/replay';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+interface UseReplayPlayerReturn {
+  frame: ReplayFrame;
+  frameIndex: number;
+  time: number;
+  duration: number;
+  isPlaying: boolean;
+  speed: number;
+  play: () => void;
+  pause: () => void;
+  setSpeed: (speed: number) => void;
+  seek: (time: number) => void;
+  step: (frames: number) => void;
+}
+
+/**
+ * Hook do reprodutor de replays
+ *
+ * @param recording - Gravação carregada (com ao menos um frame)
+ */
+export function useReplayPlayer(recording: MatchRecording): UseReplayPlayerReturn {
+  const { frames } = recording;
+  const duration = frames[frames.length - 1].t;
+  const [time, setTime] = useState(0);
+  const [playing, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Chegar ao fim encerra a reprodução sem precisar de outro estado
+  const isPlaying = playing && time < duration;
+
+  /**
+   * Efeito: Avançar o tempo enquanto estiver tocando
+   */
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameId = 0;
+    let last = performance.now();
+
+    const advance = (now: number) => {
+      const elapsed = (now - last) * speed;
+      last = now;
+
+      setTime((current) => Math.min(duration, current + elapsed));
+      frameId = requestAnimationFrame(advance);
+    };
+
+    frameId = requestAnimationFrame(advance);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, speed, duration]);
+
+  const frameIndex = frameIndexAt(frames, time);
+
+  const play = useCallback(() => {
+    // Tocar no fim recomeça do início
+    setTime((current) => (current >= duration ? 0 : current));
+    setIsPlaying(true);
+  }, [duration]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const seek = useCallback(
+    (target: number) => setTime(Math.min(duration, Math.max(0, target))),
+    [duration]
+  );
+
+  const step = useCallback(
+    (delta: number) => {
+      setIsPlaying(false);
+      setTime((current) => {
+        const index = Math.min(frames.length - 1, Math.max(0, frameIndexAt(frames, current) + delta));
+        return frames[index].t;
+      });
+    },
+    [frames]
+  );
+
+  return {
+    frame: frames[frameIndex],
+    frameIndex,
+    time,
+    duration,
+    isPlaying,
+    speed,
+    play,
+    pause,
+    setSpeed,
+    seek,
+    step,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Hook useRoomLink - Sincroniza a sala com a URL
+ *
+ * Responsabilidades:
+ * - Entrar na sala indicada em ?room=ABCD ao abrir um link
+ * - Refletir na URL a sala atual (criar, entrar, sair)
+ *
+ * Requer um <Suspense> acima do componente (useSearchParams).
+ *
+ * Uso:
+ * useRoomLink(rooms, isConnected);
+ */
+
+import { useEffect, useRef } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { ROOM_PARAM, normalizeRoomCode } from '../lib/rooms';
+import type { RoomControls } from './useWebSocket';
+
+/**
+ * Hook de link de sala
+ *
+ * @param rooms - Controles de sala da sessão (null no modo offline)
+ * @param isConnected - Só entra na sala com a conexão estabelecida
+ */
+export function useRoomLink(rooms: RoomControls | null, isConnected: boolean): void {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+  const code = normalizeRoomCode(searchParams.get(ROOM_PARAM) ?? '');
+  const current = rooms?.current ?? null;
+  const join = rooms?.join;
+
+  /** Último código da URL já tratado, para não reentrar após sair */
+  const handledCodeRef = useRef<string | null>(null);
+  /** Sala refletida na URL pela última vez */
+  const syncedRoomRef = useRef<string | null>(null);
+
+  /**
+   * Efeito: URL → sala
+   * Só reage quando o código da URL muda (link aberto ou colado)
+   */
+  useEffect(() => {
+    if (!join || !isConnected || !code) return;
+    if (handledCodeRef.current === code) return;
+
+    handledCodeRef.current = code;
+    if (code !== current) join(code);
+  }, [join, isConnected, code, current]);
+
+  /**
+   * Efeito: sala → URL
+   * Só reage quando a sala atual muda, não enquanto uma entrada está pendente
+   */
+  useEffect(() => {
+    if (!rooms || syncedRoomRef.current === current) return;
+    syncedRoomRef.current = current;
+
+    if (current === code) return;
+    handledCodeRef.current = current;
+    router.replace(current ? `${pathname}?${ROOM_PARAM}=${encodeURIComponent(current)}` : pathname, {
+      scroll: false,
+    });
+  }, [rooms, current, code, pathname, router]);
+}
@@ -0,0 +1,79 @@
+/**
+ * Hook useSpectator - Escolha da cobra acompanhada no modo espectador
+ *
+ * Responsabilidades:
+ * - Guardar a cobra escolhida pelo espectador
+ * - Alternar entre as cobras (teclado) ou escolher uma diretamente (clique)
+ * - Cair para a primeira cobra viva se a escolhida sair da partida
+ *
+ * Teclas:
+ * - E / ArrowRight → próxima cobra
+ * - Q / ArrowLeft  → cobra anterior
+ * - Q e E digitados no chat não contam
+ *
+ * Uso:
+ * const { targetId, select } = useSpectator(gameState?.snakes ?? [], enabled);
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { isTextEntry } from '../lib/input';
+import type { Snake } from '../lib/protocol';
+
+interface UseSpectatorReturn {
+  /** Cobra destacada e seguida */
+  targetId: string | null;
+  select: (snakeId: string) => void;
+  cycle: (step: number) => void;
+}
+
+/**
+ * Hook do modo espectador
+ *
+ * @param snakes - Cobras da partida ao vivo
+ * @param enabled - Se os atalhos de teclado estão ativos
+ */
+export function useSpectator(snakes: Snake[], enabled: boolean): UseSpectatorReturn {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // A escolha só vale enquanto a cobra existir; senão, a primeira viva
+  const fallback = snakes.find((snake) => snake.alive) ?? snakes[0];
+  const targetId = snakes.some((snake) => snake.id === selectedId) ? selectedId : (fallback?.id ?? null);
+
+  const cycle = useCallback(
+    (step: number) => {
+      if (snakes.length === 0) return;
+      const index = snakes.findIndex((snake) => snake.id === targetId);
+      const next = (index + step + snakes.length) % snakes.length;
+      setSelectedId(snakes[next].id);
+    },
+    [snakes, targetId]
+  );
+
+  /**
+   * Efeito: Atalhos de teclado para alternar a cobra
+   */
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTextEntry(event.key, event.target)) return;
+      switch (event.key.toLowerCase()) {
+        case 'arrowright':
+        case 'e':
+          event.preventDefault();
+          cycle(1);
+          break;
+        case 'arrowleft':
+        case 'q':
+          event.preventDefault();
+          cycle(-1);
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, cycle]);
+
+  return { targetId, select: setSelectedId, cycle };
+}
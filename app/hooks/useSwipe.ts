@@ -0,0 +1,81 @@
+/**
+ * Hook useSwipe - Gestos de deslizar viram comandos de direção
+ *
+ * Responsabilidades:
+ * - Detectar deslizes na tela de toque
+ * - Converter o eixo dominante do gesto em direção { dx, dy }
+ *
+ * Um mesmo toque pode gerar várias curvas: depois de cada direção
+ * reconhecida, o ponto de partida passa a ser a posição atual do dedo.
+ * Toques com mais de um dedo (pinça de zoom) são ignorados.
+ *
+ * Uso:
+ * useSwipe(sendMove, isPlaying);
+ */
+
+import { useEffect, useRef } from 'react';
+import type { Direction } from '../lib/protocol';
+
+/** Distância mínima (px) para reconhecer um deslize */
+const SWIPE_THRESHOLD_PX = 24;
+
+/**
+ * Hook de gestos de deslize
+ *
+ * @param onSwipe - Chamado com a direção de cada deslize
+ * @param enabled - Liga/desliga a escuta (ex.: só durante a partida)
+ */
+export function useSwipe(onSwipe: (direction: Direction) => void, enabled: boolean): void {
+  const onSwipeRef = useRef(onSwipe);
+
+  /**
+   * Efeito: Guardar o callback mais recente sem reinstalar os listeners
+   */
+  useEffect(() => {
+    onSwipeRef.current = onSwipe;
+  }, [onSwipe]);
+
+  /**
+   * Efeito: Escutar toques na janela enquanto habilitado
+   */
+  useEffect(() => {
+    if (!enabled) return;
+
+    let origin: { x: number; y: number } | null = null;
+
+    const handleStart = (event: TouchEvent) => {
+      const touch = event.touches[0];
+      origin = touch && event.touches.length === 1 ? { x: touch.clientX, y: touch.clientY } : null;
+    };
+
+    const handleMove = (event: TouchEvent) => {
+      const touch = event.touches[0];
+      if (event.touches.length > 1) origin = null;
+      if (!origin || !touch) return;
+
+      const dx = touch.clientX - origin.x;
+      const dy = touch.clientY - origin.y;
+      if (Math.max(Math.abs(dx), Math.abs(dy)) < SWIPE_THRESHOLD_PX) return;
+
+      onSwipeRef.current(
+        Math.abs(dx) > Math.abs(dy) ? { dx: Math.sign(dx), dy: 0 } : { dx: 0, dy: Math.sign(dy) }
+      );
+      origin = { x: touch.clientX, y: touch.clientY };
+    };
+
+    const handleEnd = () => {
+      origin = null;
+    };
+
+    window.addEventListener('touchstart', handleStart, { passive: true });
+    window.addEventListener('touchmove', handleMove, { passive: true });
+    window.addEventListener('touchend', handleEnd);
+    window.addEventListener('touchcancel', handleEnd);
+    return () => {
+      window.removeEventListener('touchstart', handleStart);
+      window.removeEventListener('touchmove', handleMove);
+      window.removeEventListener('touchend', handleEnd);
+      window.removeEventListener('touchcancel', handleEnd);
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,19 @@
+/**
+ * Hook useTheme - Tema escolhido nas configurações
+ *
+ * Padrão: External Store
+ * - Lê settingsStore com useStoredValue; trocar o tema nas configurações
+ *   atualiza todos os componentes e o canvas
+ *
+ * Uso:
+ * const theme = useTheme();
+ * ctx.fillStyle = theme.canvas.background;
+ */
+
+import { settingsStore } from '../lib/settings';
+import { useStoredValue } from '../lib/storage';
+import { THEMES, Theme } from '../lib/themes';
+
+export function useTheme(): Theme {
+  return THEMES[useStoredValue(settingsStore).theme];
+}
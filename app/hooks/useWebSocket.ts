@@ -5,7 +5,12 @@
  * - Estabelecer conexão WebSocket com o backend
  * - Enviar comandos de movimento
  * - Receber atualizações de estado do jogo
- * - Tratar desconexões
+ * - Ready-check e contagem regressiva antes da partida
+ * - Chat e emotes da sala, com limite de envios e jogadores silenciados
+ * - Validar os payloads recebidos antes de usá-los
+ * - Medir latência e sincronizar o relógio com o do servidor (ping/pong)
+ * - Tratar desconexões: reconexão sem limite de tentativas (com backoff),
+ *   retomada da sessão pelo token e nova tentativa manual
  * - Sincronizar estado com servidor
  *
  * Padrão: Custom React Hook
@@ -14,74 +19,216 @@
  * - Desacopla comunicação da renderização
  *
  * Uso:
- * const { gameState, sendMove, isConnected } = useWebSocket();
+ * const { gameState, sendMove, isConnected } = useWebSocket(profile);
  */
 
-import { useEffect, useState, useRef, useCallback } from 'react';
-import { io, Socket } from 'socket.io-client';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
+import { io } from 'socket.io-client';
+import { ClockStats, ClockSync, INITIAL_CLOCK_STATS } from '../lib/clockSync';
+import {
+  CHAT_RATE_LIMIT,
+  ChatEntry,
+  EMOTE_RATE_LIMIT,
+  EmoteBubble,
+  RateLimit,
+  RateLimiter,
+  appendMessage,
+  normalizeChatText,
+  showEmote,
+} from '../lib/chat';
+import { applyDelta, checkDeltaOrder } from '../lib/delta';
+import type {
+  Direction,
+  GameSocket,
+  GameState,
+  HandshakeAuth,
+  LobbyStatus,
+  RoomInfo,
+  ServerPayloads,
+} from '../lib/protocol';
+import type { PlayerProfile } from '../lib/profile';
+import { normalizeRoomCode } from '../lib/rooms';
+import { getSessionToken } from '../lib/session';
+import { ProtocolError, serverPayloadParsers } from '../lib/validation';
+
+/** Intervalo entre pings de sincronização */
+const PING_INTERVAL_MS = 2000;
+
+/** Espera pelo snapshot pedido antes de pedir de novo (pedido ou resposta perdidos) */
+const SNAPSHOT_RETRY_MS = 1000;
 
 /**
- * Interface para o estado do jogo recebido do servidor
+ * Relógio do servidor e latência da sessão
+ *
+ * Instantes enviados pelo servidor (startsAt, endTime dos efeitos) devem
+ * ser comparados com serverNow(), nunca com Date.now().
  */
-interface Snake {
-  id: string;
-  body: Array<{ x: number; y: number }>;
-  alive: boolean;
-  score: number;
-  activeEffects: Array<{ type: 'speedBoost' | 'slowDown'; endTime: number }>;
-}
-
-interface Fruit {
-  x: number;
-  y: number;
-  type: 'apple' | 'mango';
+export interface SessionClock extends ClockStats {
+  /** Instante atual no relógio do servidor (epoch ms) */
+  serverNow: () => number;
 }
 
-interface GameState {
-  status: 'lobby' | 'playing' | 'finished';
-  snakes: Snake[];
-  food: Fruit[];
-  gameWidth: number;
-  gameHeight: number;
+/**
+ * Controles de sala da sessão online
+ */
+export interface RoomControls {
+  /** Sala em que o jogador está, ou null no lobby global */
+  current: string | null;
+  /** Salas abertas, com número de jogadores */
+  list: RoomInfo[];
+  /**
+   * Último erro: texto do servidor (sala cheia, inexistente...) ou chave
+   * de tradução de um erro local (ver isMessageKey)
+   */
+  error: string | null;
+  create: () => void;
+  join: (code: string) => void;
+  leave: () => void;
+  refresh: () => void;
 }
 
-interface LobbyStatus {
-  status: string;
-  playerCount: number;
-  players: string[];
+/**
+ * Chat e emotes da sala atual (ou do lobby global)
+ */
+export interface ChatControls {
+  /** Mensagens recebidas, sem as dos jogadores silenciados */
+  messages: ChatEntry[];
+  /** Emotes em exibição sobre as cobras, sem os dos silenciados */
+  emotes: EmoteBubble[];
+  /** Jogadores silenciados nesta sessão */
+  muted: string[];
+  /** Até quando (epoch ms) o limite de envios bloqueia, após uma recusa */
+  cooldownUntil: number | null;
+  /**
+   * Envia uma mensagem à sala
+   * @returns false se vazia, sem conexão ou acima do limite
+   */
+  send: (text: string) => boolean;
+  sendEmote: (emote: string) => void;
+  toggleMute: (playerId: string) => void;
 }
 
-interface UseWebSocketReturn {
+/**
+ * Interface comum de uma sessão de jogo
+ * Também implementada pelo motor local (useLocalGame)
+ */
+export interface UseWebSocketReturn {
   gameState: GameState | null;
   lobbyStatus: LobbyStatus | null;
-  socket: Socket | null;
+  socket: GameSocket | null;
   isConnected: boolean;
-  sendMove: (direction: { dx: number; dy: number }) => void;
+  /** Houve erro ao conectar e ainda não houve conexão bem-sucedida */
+  connectionFailed: boolean;
+  /** A conexão caiu depois de estabelecida e o cliente tenta voltar */
+  isReconnecting: boolean;
+  /** Tentativas de reconexão desde a queda (0 antes da primeira) */
+  reconnectAttempt: number;
+  /** Tenta conectar agora, sem esperar o backoff */
+  retryConnection: () => void;
+  sendMove: (direction: Direction) => void;
   startGame: () => void;
+  /** Marca ou desmarca "pronto" no lobby */
+  setReady: (ready: boolean) => void;
+  /**
+   * Início confirmado da partida (epoch ms); o input só vale a partir dele
+   * Volta a null quando a partida termina ou o início falha
+   */
+  startsAt: number | null;
+  /** startGame enviado, aguardando confirmação do servidor */
+  isStarting: boolean;
+  /** Motivo informado pelo servidor quando o início falha */
+  startError: string | null;
   playerId: string | null;
+  lastDirection: Direction | null;
+  /** Último payload malformado recebido do servidor */
+  protocolError: ProtocolError | null;
+  /** Controles de sala; null quando a sessão não tem salas (modo offline) */
+  rooms: RoomControls | null;
+  /** Chat da sala; null quando não há outros jogadores (modo offline) */
+  chat: ChatControls | null;
+  /** Relógio do servidor; sem pong (servidor antigo ou offline) é o local */
+  clock: SessionClock;
 }
 
 /**
  * Hook customizado para gerenciar WebSocket
  *
+ * @param profile - Apelido e cor, enviados ao conectar, ao entrar em sala e ao mudar
  * @returns Objeto contendo estado do jogo e funções de interação
  */
-export function useWebSocket(): UseWebSocketReturn {
+export function useWebSocket(profile: PlayerProfile): UseWebSocketReturn {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [lobbyStatus, setLobbyStatus] = useState<LobbyStatus | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [connectionFailed, setConnectionFailed] = useState(false);
   const [playerId, setPlayerId] = useState<string | null>(null);
-  const socketRef = useRef<Socket | null>(null);
+  const [lastDirection, setLastDirection] = useState<Direction | null>(null);
+  const [protocolError, setProtocolError] = useState<ProtocolError | null>(null);
+  const [socket, setSocket] = useState<GameSocket | null>(null);
+  const socketRef = useRef<GameSocket | null>(null);
+  const stateRef = useRef<GameState | null>(null);
+  const seqRef = useRef<number | null>(null);
+  /** Instante (Date.now) do último requestSnapshot sem resposta, ou null */
+  const snapshotRequestedAtRef = useRef<number | null>(null);
+  const [room, setRoom] = useState<string | null>(null);
+  const [roomList, setRoomList] = useState<RoomInfo[]>([]);
+  const [roomError, setRoomError] = useState<string | null>(null);
+  /** Sala confirmada pelo servidor; filtra os eventos recebidos */
+  const roomRef = useRef<string | null>(null);
+  /** Sala desejada, reenviada a cada reconexão */
+  const desiredRoomRef = useRef<string | null>(null);
+  const profileRef = useRef(profile);
+  const [startsAt, setStartsAt] = useState<number | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [startError, setStartError] = useState<string | null>(null);
+  const [clockStats, setClockStats] = useState<ClockStats>(INITIAL_CLOCK_STATS);
+  const [hasConnected, setHasConnected] = useState(false);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  /** playerId confirmado pelo evento session; sobrevive às reconexões */
+  const sessionPlayerRef = useRef<string | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatEntry[]>([]);
+  const [emotes, setEmotes] = useState<EmoteBubble[]>([]);
+  const [muted, setMuted] = useState<string[]>([]);
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+  const [sendLimits] = useState(() => ({
+    chat: new RateLimiter(CHAT_RATE_LIMIT),
+    emote: new RateLimiter(EMOTE_RATE_LIMIT),
+  }));
+
+  /**
+   * Efeito: Enviar o perfil ao servidor quando ele muda
+   */
+  useEffect(() => {
+    profileRef.current = profile;
+    if (isConnected) socketRef.current?.emit('setProfile', profile);
+  }, [profile, isConnected]);
+
+  /**
+   * Descarta o estado da partida e o chat ao trocar de sala
+   */
+  const resetMatch = useCallback(() => {
+    stateRef.current = null;
+    seqRef.current = null;
+    snapshotRequestedAtRef.current = null;
+    setGameState(null);
+    setLobbyStatus(null);
+    setStartsAt(null);
+    setIsStarting(false);
+    setChatMessages([]);
+    setEmotes([]);
+  }, []);
 
   /**
    * Envia comando de movimento para o servidor
+   * Guarda a direção enviada para a previsão local do GameCanvas
    *
    * @param direction - Direção desejada { dx, dy }
    */
   const sendMove = useCallback(
-    (direction: { dx: number; dy: number }) => {
+    (direction: Direction) => {
       if (socketRef.current && isConnected) {
-        socketRef.current.emit('move', { direction });
+        socketRef.current.emit('move', { direction, roomId: roomRef.current ?? undefined });
+        setLastDirection(direction);
       }
     },
     [isConnected]
@@ -89,13 +236,128 @@ export function useWebSocket(): UseWebSocketReturn {
 
   /**
    * Envia comando para iniciar o jogo
+   * A tela só muda quando o servidor confirma com matchStarting ou gameState
    */
   const startGame = useCallback(() => {
     if (socketRef.current && isConnected) {
-      socketRef.current.emit('startGame');
+      setStartError(null);
+      setIsStarting(true);
+      socketRef.current.emit('startGame', { roomId: roomRef.current ?? undefined });
     }
   }, [isConnected]);
 
+  /**
+   * Envia o estado de "pronto" do jogador
+   */
+  const setReady = useCallback(
+    (ready: boolean) => {
+      if (socketRef.current && isConnected) {
+        socketRef.current.emit('setReady', { ready, roomId: roomRef.current ?? undefined });
+      }
+    },
+    [isConnected]
+  );
+
+  /**
+   * Pede ao servidor uma sala nova; a resposta chega em roomJoined
+   */
+  const createRoom = useCallback(() => {
+    setRoomError(null);
+    socketRef.current?.emit('createRoom', { profile: profileRef.current });
+  }, []);
+
+  /**
+   * Entra numa sala pelo código
+   *
+   * @param code - Código digitado ou vindo da URL
+   */
+  const joinRoom = useCallback((code: string) => {
+    const roomId = normalizeRoomCode(code);
+    if (!roomId) {
+      setRoomError('rooms.invalidCode');
+      return;
+    }
+    desiredRoomRef.current = roomId;
+    setRoomError(null);
+    socketRef.current?.emit('joinRoom', { roomId, profile: profileRef.current });
+  }, []);
+
+  /**
+   * Sai da sala atual e volta ao lobby global
+   */
+  const leaveRoom = useCallback(() => {
+    if (roomRef.current) {
+      socketRef.current?.emit('leaveRoom', { roomId: roomRef.current });
+    }
+    roomRef.current = null;
+    desiredRoomRef.current = null;
+    setRoom(null);
+    resetMatch();
+    socketRef.current?.emit('listRooms');
+  }, [resetMatch]);
+
+  const refreshRooms = useCallback(() => {
+    socketRef.current?.emit('listRooms');
+  }, []);
+
+  /**
+   * Envia uma mensagem de chat
+   * Ela só entra no histórico quando o servidor a devolve
+   */
+  const sendChat = useCallback(
+    (text: string) => {
+      const clean = normalizeChatText(text);
+      if (!clean || !socketRef.current || !isConnected) return false;
+
+      const now = Date.now();
+      if (!sendLimits.chat.tryAcquire(now)) {
+        setCooldownUntil(sendLimits.chat.availableAt(now));
+        return false;
+      }
+      setCooldownUntil(null);
+      socketRef.current.emit('chatMessage', { text: clean, roomId: roomRef.current ?? undefined });
+      return true;
+    },
+    [isConnected, sendLimits]
+  );
+
+  /**
+   * Envia um emote; o próprio aparece na hora, sem esperar o servidor
+   */
+  const sendEmote = useCallback(
+    (emote: string) => {
+      if (!socketRef.current || !isConnected || !playerId) return;
+
+      const now = Date.now();
+      if (!sendLimits.emote.tryAcquire(now)) {
+        setCooldownUntil(sendLimits.emote.availableAt(now));
+        return;
+      }
+      setCooldownUntil(null);
+      socketRef.current.emit('emote', { emote, roomId: roomRef.current ?? undefined });
+      setEmotes((bubbles) => showEmote(bubbles, { playerId, emote, shownAt: now }));
+    },
+    [isConnected, playerId, sendLimits]
+  );
+
+  /**
+   * Silencia ou volta a ouvir um jogador (mensagens e emotes)
+   */
+  const toggleMute = useCallback((id: string) => {
+    setMuted((list) => (list.includes(id) ? list.filter((other) => other !== id) : [...list, id]));
+  }, []);
+
+  /**
+   * Nova tentativa imediata: encerra o backoff em curso e reconecta
+   */
+  const retryConnection = useCallback(() => {
+    const socket = socketRef.current;
+    if (!socket || socket.connected) return;
+    setReconnectAttempt(0);
+    socket.disconnect();
+    socket.connect();
+  }, []);
+
   /**
    * Efeito: Inicializar conexão WebSocket
    *
@@ -108,41 +370,263 @@ export function useWebSocket(): UseWebSocketReturn {
   useEffect(() => {
     // Criar conexão WebSocket
     const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-    const socket = io(apiUrl, {
+    const auth: HandshakeAuth = { sessionToken: getSessionToken() };
+    const socket: GameSocket = io(apiUrl, {
+      auth,
+      // Sem limite de tentativas: o intervalo dobra até 10s (com variação)
       reconnection: true,
       reconnectionDelay: 1000,
-      reconnectionDelayMax: 5000,
-      reconnectionAttempts: 5,
+      reconnectionDelayMax: 10000,
+      reconnectionAttempts: Infinity,
     });
 
     socketRef.current = socket;
 
+    // Sincronização de relógio: sobrevive às reconexões do mesmo socket
+    const clockSync = new ClockSync();
+    let pingTimer: ReturnType<typeof setInterval> | null = null;
+    const ping = () => socket.emit('ping', { clientTime: Date.now() });
+    const stopPing = () => {
+      if (pingTimer !== null) clearInterval(pingTimer);
+      pingTimer = null;
+    };
+
+    /** ID do jogador local: o da sessão, ou o do socket em servidores sem sessão */
+    const ownId = () => sessionPlayerRef.current ?? socket.id ?? null;
+
+    // Quem envia acima do dobro do limite de um cliente normal é ignorado
+    const incoming = new Map<string, RateLimiter>();
+    const withinRate = (key: string, rate: RateLimit) => {
+      let limiter = incoming.get(key);
+      if (!limiter) {
+        limiter = new RateLimiter({ limit: rate.limit * 2, windowMs: rate.windowMs });
+        incoming.set(key, limiter);
+      }
+      return limiter.tryAcquire(Date.now());
+    };
+
+    /**
+     * Registra um listener que só recebe payloads válidos
+     *
+     * Payloads malformados não chegam ao estado do React: são
+     * reportados em protocolError e descartados
+     */
+    const listen = <E extends keyof ServerPayloads>(
+      event: E,
+      handler: (payload: ServerPayloads[E]) => void
+    ) => {
+      const parse = serverPayloadParsers[event];
+      const listener = (raw: unknown) => {
+        let payload: ServerPayloads[E];
+        try {
+          payload = parse(raw);
+        } catch (error) {
+          if (!(error instanceof ProtocolError)) throw error;
+          setProtocolError(error);
+          return;
+        }
+        handler(payload);
+      };
+      // Todos os eventos do servidor recebem um único payload unknown;
+      // o TypeScript não consegue provar isso para um E genérico
+      socket.on(event, listener as never);
+    };
+
     /**
      * Listener: Conexão estabelecida
      * Atualiza estado de conexão e armazena ID do jogador
      */
     socket.on('connect', () => {
+      setSocket(socket);
       setIsConnected(true);
-      setPlayerId(socket.id || null);
+      setHasConnected(true);
+      setReconnectAttempt(0);
+      setConnectionFailed(false);
+      // Pedidos de snapshot da conexão anterior não terão resposta
+      snapshotRequestedAtRef.current = null;
+      // Servidores sem sessão: o ID é o do socket e muda a cada conexão
+      setPlayerId(ownId());
+
+      stopPing();
+      ping();
+      pingTimer = setInterval(ping, PING_INTERVAL_MS);
+
+      // Lista as salas e volta à sala desejada após (re)conexão
+      socket.emit('listRooms');
+      if (desiredRoomRef.current) {
+        socket.emit('joinRoom', { roomId: desiredRoomRef.current, profile: profileRef.current });
+      }
+    });
+
+    /**
+     * Eventos de outra sala são ignorados; payloads sem roomId vêm de
+     * servidores sem salas e valem para todos
+     */
+    const inRoom = (payload: { roomId?: string }) =>
+      payload.roomId === undefined || payload.roomId === roomRef.current;
+
+    /**
+     * Encerra a contagem quando, depois do início, o status deixa de ser
+     * 'playing' (fim da partida ou volta ao lobby)
+     */
+    const settleStart = (status: GameState['status']) => {
+      if (status === 'playing') {
+        setIsStarting(false);
+        return;
+      }
+      setStartsAt((at) => (at !== null && clockSync.now() >= at ? null : at));
+    };
+
+    /**
+     * Listener: Resposta a um ping
+     * Pongs atrasados demais (ou de outro relógio) são descartados
+     */
+    listen('pong', ({ clientTime, serverTime }) => {
+      if (clockSync.record(clientTime, serverTime, Date.now())) setClockStats(clockSync.stats());
+    });
+
+    /**
+     * Listener: Identidade da sessão
+     * Com o token reconhecido (resumed), o servidor devolve a mesma cobra
+     */
+    listen('session', ({ playerId }) => {
+      sessionPlayerRef.current = playerId;
+      setPlayerId(playerId);
+    });
+
+    /**
+     * Listener: Entrada na sala confirmada
+     * Voltar à mesma sala após reconectar mantém a partida na tela
+     */
+    listen('roomJoined', ({ roomId }) => {
+      const changed = roomId !== roomRef.current;
+      roomRef.current = roomId;
+      desiredRoomRef.current = roomId;
+      setRoom(roomId);
+      setRoomError(null);
+      if (changed) resetMatch();
+    });
+
+    /**
+     * Listener: Lista de salas abertas
+     */
+    listen('roomList', (rooms) => {
+      setRoomList(rooms);
+    });
+
+    /**
+     * Listener: Erro de sala (inexistente, cheia...)
+     */
+    listen('roomError', ({ message }) => {
+      desiredRoomRef.current = roomRef.current;
+      setRoomError(message);
     });
 
     /**
      * Listener: Atualização do lobby
      */
-    socket.on('lobbyUpdate', (status: LobbyStatus) => {
+    listen('lobbyUpdate', (status) => {
+      if (!inRoom(status)) return;
       setLobbyStatus(status);
     });
 
+    /**
+     * Listener: Mensagem de chat da sala
+     */
+    listen('chatMessage', (message) => {
+      if (!inRoom(message)) return;
+      if (message.playerId !== ownId() && !withinRate(`chat:${message.playerId}`, CHAT_RATE_LIMIT)) return;
+      setChatMessages((history) => appendMessage(history, { ...message, receivedAt: Date.now() }));
+    });
+
+    /**
+     * Listener: Emote de outro jogador
+     * O eco do próprio emote é ignorado (já apareceu ao enviar)
+     */
+    listen('emote', (payload) => {
+      if (!inRoom(payload) || payload.playerId === ownId()) return;
+      if (!withinRate(`emote:${payload.playerId}`, EMOTE_RATE_LIMIT)) return;
+      const bubble = { playerId: payload.playerId, emote: payload.emote, shownAt: Date.now() };
+      setEmotes((bubbles) => showEmote(bubbles, bubble));
+    });
+
+    /**
+     * Listener: Partida confirmada, contagem regressiva até startsAt
+     */
+    listen('matchStarting', (payload) => {
+      if (!inRoom(payload)) return;
+      setStartsAt(payload.startsAt);
+      setIsStarting(false);
+      setStartError(null);
+    });
+
+    /**
+     * Listener: O servidor recusou ou cancelou o início
+     * Descarta a contagem e devolve o jogador ao lobby
+     */
+    listen('startFailed', (payload) => {
+      if (!inRoom(payload)) return;
+      setStartsAt(null);
+      setIsStarting(false);
+      setStartError(payload.reason);
+    });
+
     /**
      * Listener: Estado do jogo atualizado
      * Atualiza o estado local com dados recebidos do servidor
      *
-     * O servidor envia o estado completo após cada tick
+     * O servidor envia o estado completo após cada tick, ou como
+     * snapshot de ressincronização quando usa deltas
      * Padrão: State Synchronization
      * Sincroniza todos os clientes através deste evento
      */
-    socket.on('gameState', (state: GameState) => {
+    listen('gameState', (state) => {
+      if (!inRoom(state)) return;
+      stateRef.current = state;
+      seqRef.current = state.seq ?? null;
+      snapshotRequestedAtRef.current = null;
       setGameState(state);
+      settleStart(state.status);
+    });
+
+    /**
+     * Listener: Delta do estado do jogo
+     * Aplica o patch sobre a cópia local do último estado
+     *
+     * Se faltar algum delta na sequência (ou não houver estado base),
+     * pede um snapshot completo e descarta os deltas até ele chegar; sem
+     * resposta em SNAPSHOT_RETRY_MS, o próximo delta repete o pedido
+     */
+    listen('gameStateDelta', (delta) => {
+      if (!inRoom(delta)) return;
+      const order = checkDeltaOrder(seqRef.current, delta.seq);
+
+      if (order === 'stale') return;
+
+      if (order === 'gap' || !stateRef.current) {
+        const requestedAt = snapshotRequestedAtRef.current;
+        const now = Date.now();
+        if (requestedAt === null || now - requestedAt >= SNAPSHOT_RETRY_MS) {
+          snapshotRequestedAtRef.current = now;
+          socket.emit('requestSnapshot', { roomId: roomRef.current ?? undefined });
+        }
+        return;
+      }
+
+      // Delta que não combina com o estado local: é descartado e o próximo
+      // chega como lacuna, pedindo um snapshot
+      let next: GameState;
+      try {
+        next = applyDelta(stateRef.current, delta);
+      } catch (error) {
+        if (!(error instanceof ProtocolError)) throw error;
+        setProtocolError(error);
+        return;
+      }
+      stateRef.current = next;
+      seqRef.current = delta.seq;
+      setGameState(next);
+      if (delta.status) settleStart(delta.status);
     });
 
     /**
@@ -150,30 +634,87 @@ export function useWebSocket(): UseWebSocketReturn {
      */
     socket.on('disconnect', () => {
       setIsConnected(false);
+      stopPing();
+      // A direção prevista não foi (nem será) confirmada pelo servidor
+      setLastDirection(null);
+      // A sequência não sobrevive à reconexão
+      seqRef.current = null;
+      snapshotRequestedAtRef.current = null;
     });
 
     /**
      * Listener: Erro de conexão
      */
     socket.on('connect_error', () => {
-      // Tenta reconectar automaticamente
+      // Tenta reconectar automaticamente; a UI pode oferecer o modo offline
+      setConnectionFailed(true);
+    });
+
+    /**
+     * Listener: Nova tentativa de reconexão (Manager do Socket.IO)
+     */
+    socket.io.on('reconnect_attempt', (attempt) => {
+      setReconnectAttempt(attempt);
     });
 
     /**
      * Cleanup: Fechar conexão ao desmontar
      */
     return () => {
+      stopPing();
       socket.disconnect();
     };
-  }, []);
+  }, [resetMatch]);
+
+  const serverNow = useCallback(() => Date.now() + clockStats.offsetMs, [clockStats.offsetMs]);
+  const clock = useMemo<SessionClock>(() => ({ ...clockStats, serverNow }), [clockStats, serverNow]);
+
+  const rooms = useMemo<RoomControls>(
+    () => ({
+      current: room,
+      list: roomList,
+      error: roomError,
+      create: createRoom,
+      join: joinRoom,
+      leave: leaveRoom,
+      refresh: refreshRooms,
+    }),
+    [room, roomList, roomError, createRoom, joinRoom, leaveRoom, refreshRooms]
+  );
+
+  const chat = useMemo<ChatControls>(
+    () => ({
+      messages: chatMessages.filter((message) => !muted.includes(message.playerId)),
+      emotes: emotes.filter((bubble) => !muted.includes(bubble.playerId)),
+      muted,
+      cooldownUntil,
+      send: sendChat,
+      sendEmote,
+      toggleMute,
+    }),
+    [chatMessages, emotes, muted, cooldownUntil, sendChat, sendEmote, toggleMute]
+  );
 
   return {
     gameState,
     lobbyStatus,
-    socket: socketRef.current,
+    socket,
     isConnected,
+    connectionFailed,
+    isReconnecting: hasConnected && !isConnected,
+    reconnectAttempt,
+    retryConnection,
     sendMove,
     startGame,
+    setReady,
+    startsAt,
+    isStarting,
+    startError,
     playerId,
+    lastDirection,
+    protocolError,
+    rooms,
+    chat,
+    clock,
   };
 }
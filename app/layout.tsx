@@ -1,6 +1,10 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { AudioRoot } from "./components/AudioRoot";
+import { LiveRegion } from "./components/LiveRegion";
+import { LocaleRoot } from "./components/LocaleRoot";
+import { ThemeRoot } from "./components/ThemeRoot";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -23,12 +27,16 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang="pt-BR" data-theme="dark">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
         suppressHydrationWarning
       >
+        <ThemeRoot />
+        <LocaleRoot />
+        <AudioRoot />
         {children}
+        <LiveRegion />
       </body>
     </html>
   );
@@ -0,0 +1,105 @@
+/**
+ * Anúncios - Eventos da partida em texto para leitores de tela
+ *
+ * Responsabilidades:
+ * - Comparar dois GameStates e descrever o que mudou para o jogador
+ *   local: frutas comidas e pontuação, efeitos que começaram ou
+ *   terminaram, mortes e início/fim da partida
+ * - Resumir o resultado final (vencedor e colocação)
+ *
+ * Padrão: Funções puras
+ * - Sem acesso ao DOM nem ao React
+ * - Usadas pelo hook useGameAnnouncements, que entrega as frases ao
+ *   announcer (região aria-live global, ver LiveRegion)
+ *
+ * Só a cobra local tem frutas e efeitos anunciados; de outras cobras
+ * apenas a morte, para não sobrecarregar o leitor de tela.
+ */
+
+import { effectName, fruitName } from './catalog';
+import type { I18n } from './i18n';
+import { displayName } from './profile';
+import type { GameState } from './protocol';
+import { MatchResults, eatenFruits } from './results';
+
+/**
+ * Frases sobre as mudanças entre dois estados
+ *
+ * @param previous - Estado anterior (null no primeiro estado recebido)
+ * @param current - Estado novo
+ * @param playerId - Jogador local
+ * @param i18n - Idioma das frases
+ * @returns Frases na ordem em que devem ser lidas
+ */
+export function describeChanges(
+  previous: GameState | null,
+  current: GameState,
+  playerId: string | null,
+  i18n: I18n
+): string[] {
+  const { t } = i18n;
+  const messages: string[] = [];
+
+  if (current.status === 'playing' && previous?.status !== 'playing') {
+    messages.push(t('announce.started'));
+  }
+  if (!previous || previous.status !== 'playing') return messages;
+
+  const own = current.snakes.find((snake) => snake.id === playerId);
+  const ownBefore = previous.snakes.find((snake) => snake.id === playerId);
+
+  if (own) {
+    eatenFruits(previous, current)
+      .filter(([eater]) => eater === playerId)
+      .forEach(([, type]) => {
+        messages.push(t('announce.ate', { fruit: fruitName(type, t), score: own.score }));
+      });
+
+    const before = ownBefore?.activeEffects ?? [];
+    own.activeEffects.forEach((effect) => {
+      const old = before.find((candidate) => candidate.type === effect.type);
+      const name = effectName(effect.type, t);
+      if (!old) messages.push(t('announce.effectStarted', { effect: name }));
+      else if (effect.endTime > old.endTime) messages.push(t('announce.effectRenewed', { effect: name }));
+    });
+    before.forEach((effect) => {
+      if (!own.activeEffects.some((candidate) => candidate.type === effect.type)) {
+        messages.push(t('announce.effectEnded', { effect: effectName(effect.type, t) }));
+      }
+    });
+  }
+
+  current.snakes.forEach((snake) => {
+    const before = previous.snakes.find((old) => old.id === snake.id);
+    if (!before?.alive || snake.alive) return;
+    messages.push(
+      snake.id === playerId
+        ? t('announce.youDied', { score: snake.score })
+        : t('announce.died', { name: displayName(snake, t) })
+    );
+  });
+
+  if (current.status === 'finished') messages.push(t('announce.finished'));
+
+  return messages;
+}
+
+/**
+ * Frase com o resultado final da partida
+ */
+export function describeResults(results: MatchResults, playerId: string | null, i18n: I18n): string {
+  const { t } = i18n;
+  const winner = results.ranking.find((player) => player.id === results.winnerId);
+  const own = results.ranking.find((player) => player.id === playerId);
+
+  const parts = [t('announce.results')];
+  if (winner) {
+    const name = displayName(winner, t);
+    parts.push(winner.id === playerId ? t('announce.youWon') : t('announce.winner', { name }));
+  }
+  if (own) {
+    const place = i18n.formatOrdinal(own.placement);
+    parts.push(t('announce.placement', { place, total: results.ranking.length, score: own.score }));
+  }
+  return parts.join(' ');
+}
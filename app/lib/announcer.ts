@@ -0,0 +1,55 @@
+/**
+ * Announcer - Fila de mensagens para leitores de tela
+ *
+ * Responsabilidades:
+ * - Guardar as últimas mensagens anunciadas
+ * - Notificar a região aria-live (LiveRegion) quando chega uma nova
+ *
+ * Padrão: External Store (em memória)
+ * - announce() pode ser chamado de qualquer lugar (efeitos, handlers)
+ * - LiveRegion lê com useSyncExternalStore
+ *
+ * A região fica no layout, montada uma única vez: leitores de tela só
+ * anunciam mudanças em regiões que já existiam antes do texto chegar,
+ * então ela não pode ser recriada quando a página troca de tela
+ * (lobby → jogo → resultados).
+ */
+
+export interface Announcement {
+  id: number;
+  text: string;
+}
+
+/** Mensagens mantidas no DOM (as antigas já foram lidas) */
+const MAX_ANNOUNCEMENTS = 5;
+
+const listeners = new Set<() => void>();
+let announcements: Announcement[] = [];
+let nextId = 0;
+
+const EMPTY: Announcement[] = [];
+
+/**
+ * Anuncia uma mensagem (ignorada se vazia)
+ */
+export function announce(text: string): void {
+  if (!text) return;
+  announcements = [...announcements, { id: nextId++, text }].slice(-MAX_ANNOUNCEMENTS);
+  listeners.forEach((listener) => listener());
+}
+
+export function getAnnouncements(): Announcement[] {
+  return announcements;
+}
+
+/** Snapshot do servidor: nada anunciado */
+export function getServerAnnouncements(): Announcement[] {
+  return EMPTY;
+}
+
+export function subscribeAnnouncements(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
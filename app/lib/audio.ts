@@ -0,0 +1,169 @@
+/**
+ * Áudio - Toca os efeitos sonoros e a música com a Web Audio API
+ *
+ * Responsabilidades:
+ * - Criar o AudioContext no primeiro gesto do usuário (os navegadores
+ *   bloqueiam som antes disso)
+ * - Sintetizar os efeitos sonoros descritos em sounds.ts
+ * - Tocar a música de fundo em loop enquanto pedida
+ * - Aplicar os volumes e o mudo das configurações
+ *
+ * Padrão: Singleton sem dependência de React
+ * - AudioRoot (layout) destrava o áudio e repassa os volumes
+ * - useGameAudio pede os sons e a música conforme a partida
+ *
+ * Grafo: osciladores → sfx ┐
+ *        música (loop) → music ┴→ master → saída
+ *
+ * Antes do destravamento, sons pedidos são descartados (não fazem fila):
+ * um som atrasado não corresponde mais ao que está na tela.
+ */
+
+import { AudioSettings, DEFAULT_SETTINGS } from './settings';
+import { SOUNDS, SoundId, renderMusicLoop } from './sounds';
+
+/** Constante de tempo (s) das mudanças de volume, sem estalos */
+const VOLUME_SMOOTHING = 0.02;
+
+/** Menor ganho de uma rampa exponencial (zero não é permitido) */
+const SILENCE = 0.0001;
+
+interface AudioGraph {
+  context: AudioContext;
+  master: GainNode;
+  sfx: GainNode;
+  music: GainNode;
+}
+
+export class AudioEngine {
+  private graph: AudioGraph | null = null;
+  private volumes: AudioSettings = DEFAULT_SETTINGS.audio;
+  private musicBuffer: AudioBuffer | null = null;
+  private musicSource: AudioBufferSourceNode | null = null;
+  private wantsMusic = false;
+
+  /**
+   * O contexto existe e está tocando
+   */
+  get unlocked(): boolean {
+    return this.graph?.context.state === 'running';
+  }
+
+  /**
+   * Cria ou retoma o contexto; deve ser chamado dentro de um gesto
+   * (clique, toque, tecla)
+   */
+  unlock(): void {
+    if (typeof window === 'undefined' || typeof window.AudioContext !== 'function') return;
+
+    if (!this.graph) {
+      const context = new AudioContext();
+      const master = context.createGain();
+      const sfx = context.createGain();
+      const music = context.createGain();
+      sfx.connect(master);
+      music.connect(master);
+      master.connect(context.destination);
+      this.graph = { context, master, sfx, music };
+      this.applyVolumes();
+    }
+
+    if (this.graph.context.state === 'suspended') {
+      void this.graph.context.resume().then(() => this.syncMusic());
+    } else {
+      this.syncMusic();
+    }
+  }
+
+  /**
+   * Aplica volumes e mudo (AudioSettings das configurações)
+   */
+  setVolumes(volumes: AudioSettings): void {
+    this.volumes = volumes;
+    this.applyVolumes();
+    this.syncMusic();
+  }
+
+  /**
+   * Toca um efeito sonoro agora; sem áudio destravado, não faz nada
+   */
+  play(id: SoundId): void {
+    const graph = this.graph;
+    if (!graph || !this.unlocked || this.volumes.muted || this.volumes.sfx === 0) return;
+
+    const { context, sfx } = graph;
+    const now = context.currentTime;
+
+    SOUNDS[id].forEach((tone) => {
+      const start = now + tone.at;
+      const end = start + tone.duration;
+      const oscillator = context.createOscillator();
+      const envelope = context.createGain();
+
+      oscillator.type = tone.wave;
+      oscillator.frequency.setValueAtTime(tone.freq, start);
+      if (tone.to !== undefined) oscillator.frequency.exponentialRampToValueAtTime(tone.to, end);
+
+      envelope.gain.setValueAtTime(SILENCE, start);
+      envelope.gain.linearRampToValueAtTime(tone.gain, start + 0.01);
+      envelope.gain.exponentialRampToValueAtTime(SILENCE, end);
+
+      oscillator.connect(envelope);
+      envelope.connect(sfx);
+      oscillator.onended = () => envelope.disconnect();
+      oscillator.start(start);
+      oscillator.stop(end + 0.02);
+    });
+  }
+
+  /**
+   * Liga ou desliga a música de fundo
+   * Com volume zero (ou mudo) ela nem toca; volta ao subir o volume
+   */
+  setMusic(playing: boolean): void {
+    this.wantsMusic = playing;
+    this.syncMusic();
+  }
+
+  private applyVolumes(): void {
+    if (!this.graph) return;
+
+    const { context, master, sfx, music } = this.graph;
+    const { volumes } = this;
+    master.gain.setTargetAtTime(volumes.muted ? 0 : volumes.master, context.currentTime, VOLUME_SMOOTHING);
+    sfx.gain.setTargetAtTime(volumes.sfx, context.currentTime, VOLUME_SMOOTHING);
+    music.gain.setTargetAtTime(volumes.music, context.currentTime, VOLUME_SMOOTHING);
+  }
+
+  /**
+   * Inicia ou para o loop conforme o pedido, os volumes e o contexto
+   */
+  private syncMusic(): void {
+    const graph = this.graph;
+    const { muted, master, music } = this.volumes;
+    const audible = this.wantsMusic && this.unlocked && !muted && master > 0 && music > 0;
+
+    if (audible && graph && !this.musicSource) {
+      const { context } = graph;
+      if (!this.musicBuffer) {
+        const samples = renderMusicLoop(context.sampleRate);
+        this.musicBuffer = context.createBuffer(1, samples.length, context.sampleRate);
+        this.musicBuffer.copyToChannel(samples, 0);
+      }
+
+      const source = context.createBufferSource();
+      source.buffer = this.musicBuffer;
+      source.loop = true;
+      source.connect(graph.music);
+      source.start();
+      this.musicSource = source;
+    } else if (!audible && this.musicSource) {
+      this.musicSource.stop();
+      this.musicSource.disconnect();
+      this.musicSource = null;
+    }
+  }
+}
+
+/** Áudio da página, compartilhado por todas as telas */
+export const audio = new AudioEngine();
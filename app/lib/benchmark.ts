@@ -0,0 +1,106 @@
+/**
+ * Cena de benchmark do renderer
+ *
+ * Responsabilidades:
+ * - Gerar GameStates sintéticos e determinísticos com arena grande e
+ *   muitas cobras, para medir o tempo de quadro do GameCanvas
+ *
+ * Padrão: Funções puras
+ * - Cada cobra percorre o contorno de um retângulo próprio (sem
+ *   colisões nem teleportes), um passo por tick
+ * - As frutas ficam em posições fixas sorteadas por uma semente
+ *
+ * Uso: página /benchmark
+ */
+
+import type { Fruit, GameState, Point, Snake } from './protocol';
+
+export interface BenchmarkConfig {
+  gameWidth: number;
+  gameHeight: number;
+  snakeCount: number;
+  snakeLength: number;
+  fruitCount: number;
+}
+
+/** Cenário de referência: arena 200×120 com 20 cobras */
+export const BENCHMARK_CONFIG: BenchmarkConfig = {
+  gameWidth: 200,
+  gameHeight: 120,
+  snakeCount: 20,
+  snakeLength: 30,
+  fruitCount: 40,
+};
+
+/** Distância entre os retângulos de cobras vizinhas */
+const LANE_GAP = 2;
+
+const COLORS = ['#4CAF50', '#2196F3', '#E91E63', '#FFC107', '#9C27B0', '#00BCD4', '#FF5722', '#8BC34A'];
+
+/**
+ * Ponto do contorno de um retângulo, percorrido no sentido horário
+ */
+function perimeterPoint(left: number, top: number, right: number, bottom: number, step: number): Point {
+  const width = right - left;
+  const height = bottom - top;
+  const position = ((step % (2 * (width + height))) + 2 * (width + height)) % (2 * (width + height));
+
+  if (position < width) return { x: left + position, y: top };
+  if (position < width + height) return { x: right, y: top + position - width };
+  if (position < 2 * width + height) return { x: right - (position - width - height), y: bottom };
+  return { x: left, y: bottom - (position - 2 * width - height) };
+}
+
+/**
+ * Gerador pseudoaleatório simples (LCG) para posições reproduzíveis
+ */
+function seeded(seed: number): () => number {
+  let value = seed;
+  return () => {
+    value = (value * 1664525 + 1013904223) % 4294967296;
+    return value / 4294967296;
+  };
+}
+
+/**
+ * ID da cobra i da cena; a primeira faz o papel do jogador local
+ */
+export function benchmarkSnakeId(index: number): string {
+  return `bench-${index}`;
+}
+
+/**
+ * Estado da cena no tick informado
+ */
+export function createBenchmarkState(tick: number, config: BenchmarkConfig = BENCHMARK_CONFIG): GameState {
+  const { gameWidth, gameHeight, snakeCount, snakeLength, fruitCount } = config;
+
+  const snakes: Snake[] = Array.from({ length: snakeCount }, (_, index) => {
+    const inset = 1 + (index % Math.floor(gameHeight / (2 * LANE_GAP) - 1)) * LANE_GAP;
+    const right = gameWidth - 1 - inset;
+    const bottom = gameHeight - 1 - inset;
+    const offset = index * 17;
+    const body = Array.from({ length: snakeLength }, (_, segment) =>
+      perimeterPoint(inset, inset, right, bottom, tick + offset - segment)
+    );
+
+    return {
+      id: benchmarkSnakeId(index),
+      body,
+      alive: true,
+      score: (tick + offset) % 500,
+      activeEffects: [],
+      name: `Bot ${index + 1}`,
+      color: COLORS[index % COLORS.length],
+    };
+  });
+
+  const random = seeded(42);
+  const food: Fruit[] = Array.from({ length: fruitCount }, () => ({
+    x: Math.floor(random() * gameWidth),
+    y: Math.floor(random() * gameHeight),
+    type: random() < 0.25 ? 'mango' : 'apple',
+  }));
+
+  return { status: 'playing', snakes, food, gameWidth, gameHeight };
+}
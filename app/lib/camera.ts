@@ -0,0 +1,134 @@
+/**
+ * Câmera - Recorte da arena mostrado no canvas
+ *
+ * Responsabilidades:
+ * - Calcular o zoom que mostra a arena inteira e os limites do zoom
+ * - Manter o centro da câmera dentro da arena
+ * - Converter entre pixels da tela (CSS) e células da arena
+ * - Aproximar/afastar mantendo fixo o ponto sob o cursor ou os dedos
+ *
+ * Padrão: Funções puras
+ * - Sem acesso ao DOM nem ao React
+ * - Usadas pelo loop de requestAnimationFrame do GameCanvas
+ *
+ * Coordenadas: x/y da câmera são o centro da visão, em células.
+ */
+
+import type { Point } from './protocol';
+
+/** Célula padrão em pixels CSS quando a arena não cabe na tela */
+export const DEFAULT_CELL_PX = 12;
+
+/** Maior aproximação, em pixels CSS por célula */
+export const MAX_CELL_PX = 48;
+
+/** Fator de cada passo de zoom (roda do mouse, botões) */
+export const ZOOM_STEP = 1.25;
+
+export interface Camera {
+  x: number;
+  y: number;
+  /** Tamanho da célula em pixels CSS */
+  cellPx: number;
+}
+
+/** Tamanho da área de desenho em pixels CSS */
+export interface ViewSize {
+  width: number;
+  height: number;
+}
+
+/** Retângulo em células */
+export interface CellRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Célula que faz a arena inteira caber na visão
+ */
+export function fitCellPx(view: ViewSize, width: number, height: number): number {
+  return Math.min(view.width / width, view.height / height);
+}
+
+/**
+ * Limites do zoom: do encaixe da arena inteira até MAX_CELL_PX
+ */
+export function zoomLimits(view: ViewSize, width: number, height: number): { min: number; max: number } {
+  const fit = fitCellPx(view, width, height);
+  return { min: fit, max: Math.max(fit, MAX_CELL_PX) };
+}
+
+/**
+ * Zoom inicial: a arena inteira se couber com células de pelo menos
+ * DEFAULT_CELL_PX, senão DEFAULT_CELL_PX
+ */
+export function defaultCellPx(view: ViewSize, width: number, height: number): number {
+  return Math.max(fitCellPx(view, width, height), DEFAULT_CELL_PX);
+}
+
+/**
+ * Mantém a visão dentro da arena; num eixo em que a arena cabe
+ * inteira, centraliza
+ */
+export function clampCamera(camera: Camera, view: ViewSize, width: number, height: number): Camera {
+  const clampAxis = (center: number, viewPx: number, size: number) => {
+    const half = viewPx / camera.cellPx / 2;
+    if (half * 2 >= size) return size / 2;
+    return Math.min(size - half, Math.max(half, center));
+  };
+
+  return {
+    x: clampAxis(camera.x, view.width, width),
+    y: clampAxis(camera.y, view.height, height),
+    cellPx: camera.cellPx,
+  };
+}
+
+/**
+ * Célula (fracionária) sob um ponto da tela
+ */
+export function screenToCell(camera: Camera, view: ViewSize, point: Point): Point {
+  return {
+    x: camera.x + (point.x - view.width / 2) / camera.cellPx,
+    y: camera.y + (point.y - view.height / 2) / camera.cellPx,
+  };
+}
+
+/**
+ * Ponto da tela de uma célula (fracionária)
+ */
+export function cellToScreen(camera: Camera, view: ViewSize, cell: Point): Point {
+  return {
+    x: (cell.x - camera.x) * camera.cellPx + view.width / 2,
+    y: (cell.y - camera.y) * camera.cellPx + view.height / 2,
+  };
+}
+
+/**
+ * Área da arena visível, em células (pode passar das bordas)
+ */
+export function visibleArea(camera: Camera, view: ViewSize): CellRect {
+  const width = view.width / camera.cellPx;
+  const height = view.height / camera.cellPx;
+  return { x: camera.x - width / 2, y: camera.y - height / 2, width, height };
+}
+
+/**
+ * Muda o zoom mantendo a mesma célula sob o ponto de âncora
+ *
+ * @param camera - Câmera atual
+ * @param view - Tamanho da visão
+ * @param cellPx - Novo tamanho de célula (já limitado)
+ * @param anchor - Ponto da tela que fica parado (cursor, meio da pinça)
+ */
+export function zoomAt(camera: Camera, view: ViewSize, cellPx: number, anchor: Point): Camera {
+  const cell = screenToCell(camera, view, anchor);
+  return {
+    x: cell.x - (anchor.x - view.width / 2) / cellPx,
+    y: cell.y - (anchor.y - view.height / 2) / cellPx,
+    cellPx,
+  };
+}
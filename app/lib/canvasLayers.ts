@@ -0,0 +1,238 @@
+/**
+ * Camadas do canvas - Partes estáticas desenhadas uma única vez
+ *
+ * Responsabilidades:
+ * - Fundo e grade: uma célula desenhada num canvas fora da tela e
+ *   repetida como padrão (CanvasPattern) por toda a arena
+ * - Frutas: um sprite por emoji, em vez de medir e desenhar texto a
+ *   cada fruta em cada frame
+ * - Cena: o que só muda com o snapshot (fundo, frutas, cobras mortas)
+ *   num canvas fora da tela que cobre a visão e uma margem; enquanto o
+ *   conteúdo não muda e a visão cabe na margem, é só copiado
+ *
+ * Padrão: Cache por resolução
+ * - Cada entrada é desenhada no tamanho real em pixels do dispositivo
+ *   (célula × devicePixelRatio), nítida em qualquer zoom
+ * - Mudou o zoom ou as cores, a entrada é refeita; só a resolução
+ *   atual fica guardada (uma pinça não acumula sprites)
+ *
+ * Um único padrão de célula custa o mesmo em qualquer tamanho de arena,
+ * ao contrário de um canvas com a arena inteira; pelo mesmo motivo a
+ * cena cobre só a visão, não a arena.
+ */
+
+import type { CellRect } from './camera';
+
+/** Maior célula desenhada nos caches, em pixels do dispositivo */
+const MAX_CACHED_CELL_PX = 256;
+
+/** Margem da cena além da visão, em pixels do dispositivo */
+const SCENE_MARGIN_PX = 192;
+
+/**
+ * Cena pronta para copiar no canvas
+ */
+export interface SceneLayer {
+  canvas: HTMLCanvasElement;
+  /** Células cobertas; o pixel (0, 0) é o canto de bounds.x/bounds.y */
+  bounds: CellRect;
+}
+
+/**
+ * Cria um canvas fora da tela
+ */
+function createLayer(size: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  return canvas;
+}
+
+/**
+ * Tamanho inteiro de uma célula no cache
+ */
+function cachedSize(cellDevicePx: number): number {
+  return Math.max(1, Math.min(MAX_CACHED_CELL_PX, Math.round(cellDevicePx)));
+}
+
+/**
+ * Interseção de dois retângulos (largura/altura zero se não se tocam)
+ */
+function intersect(a: CellRect, b: CellRect): CellRect {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+    height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y),
+  };
+}
+
+/**
+ * outer contém inner inteiro
+ */
+function containsRect(outer: CellRect, inner: CellRect): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+export class LayerCache {
+  private grid: { key: string; size: number; pattern: CanvasPattern } | null = null;
+  private spriteSize = 0;
+  private sprites = new Map<string, HTMLCanvasElement>();
+  private sceneCanvas: HTMLCanvasElement | null = null;
+  private scene: { key: string; layer: SceneLayer } | null = null;
+
+  /**
+   * Padrão de fundo e grade com período de uma célula lógica
+   *
+   * @param ctx - Contexto onde o padrão será usado
+   * @param cellUnits - Tamanho da célula nas unidades de desenho (CELL_SIZE)
+   * @param cellDevicePx - Tamanho da célula em pixels do dispositivo
+   * @param colors - Cores do fundo e das linhas
+   * @param lineWidth - Espessura da linha da grade, em unidades de desenho
+   */
+  gridPattern(
+    ctx: CanvasRenderingContext2D,
+    cellUnits: number,
+    cellDevicePx: number,
+    colors: { background: string; grid: string },
+    lineWidth: number
+  ): CanvasPattern | null {
+    const size = cachedSize(cellDevicePx);
+    const key = `${size}|${colors.background}|${colors.grid}|${lineWidth}`;
+    if (this.grid?.key === key) return this.grid.pattern;
+
+    const tile = createLayer(size);
+    const tileCtx = tile.getContext('2d');
+    if (!tileCtx) return null;
+
+    tileCtx.fillStyle = colors.background;
+    tileCtx.fillRect(0, 0, size, size);
+
+    // Linhas nas quatro bordas: metade de cada uma cai dentro da célula,
+    // como as linhas entre células da grade desenhada uma a uma
+    tileCtx.strokeStyle = colors.grid;
+    tileCtx.lineWidth = (lineWidth * size) / cellUnits;
+    tileCtx.beginPath();
+    tileCtx.moveTo(0, 0);
+    tileCtx.lineTo(size, 0);
+    tileCtx.moveTo(0, size);
+    tileCtx.lineTo(size, size);
+    tileCtx.moveTo(0, 0);
+    tileCtx.lineTo(0, size);
+    tileCtx.moveTo(size, 0);
+    tileCtx.lineTo(size, size);
+    tileCtx.stroke();
+
+    const pattern = ctx.createPattern(tile, 'repeat');
+    if (!pattern) return null;
+    pattern.setTransform(new DOMMatrix().scale(cellUnits / size));
+
+    this.grid = { key, size, pattern };
+    return pattern;
+  }
+
+  /**
+   * Sprite de um emoji centralizado numa célula
+   *
+   * @param emoji - Emoji da fruta
+   * @param cellDevicePx - Tamanho da célula em pixels do dispositivo
+   * @param fontScale - Fração da célula ocupada pelo emoji
+   */
+  sprite(emoji: string, cellDevicePx: number, fontScale: number): HTMLCanvasElement {
+    const size = cachedSize(cellDevicePx);
+    if (size !== this.spriteSize) {
+      this.sprites.clear();
+      this.spriteSize = size;
+    }
+
+    const cached = this.sprites.get(emoji);
+    if (cached) return cached;
+
+    const sprite = createLayer(size);
+    const spriteCtx = sprite.getContext('2d');
+    if (spriteCtx) {
+      spriteCtx.font = `bold ${size * fontScale}px Arial`;
+      spriteCtx.textAlign = 'center';
+      spriteCtx.textBaseline = 'middle';
+      spriteCtx.fillText(emoji, size / 2, size / 2);
+    }
+
+    this.sprites.set(emoji, sprite);
+    return sprite;
+  }
+
+  /**
+   * Cena que cobre a área visível, redesenhada só quando precisa
+   *
+   * Refaz a cena quando o conteúdo, a arena ou a célula mudam, ou quando
+   * a área visível sai da parte coberta; a nova cobre a área mais
+   * SCENE_MARGIN_PX de cada lado (recortada na arena).
+   *
+   * @param content - Assinatura do que draw desenha (frutas, cobras mortas, tema)
+   * @param area - Área visível, em células
+   * @param arena - Arena inteira, em células
+   * @param cellUnits - Tamanho da célula nas unidades de desenho (CELL_SIZE)
+   * @param cellDevicePx - Tamanho da célula em pixels do dispositivo
+   * @param draw - Desenha a cena em unidades de desenho, limitada a bounds
+   */
+  sceneLayer(
+    content: string,
+    area: CellRect,
+    arena: CellRect,
+    cellUnits: number,
+    cellDevicePx: number,
+    draw: (ctx: CanvasRenderingContext2D, bounds: CellRect) => void
+  ): SceneLayer | null {
+    const key = `${content}|${arena.width}x${arena.height}|${cellDevicePx}`;
+    const visible = intersect(area, arena);
+    if (this.scene?.key === key && containsRect(this.scene.layer.bounds, visible)) {
+      return this.scene.layer;
+    }
+
+    const margin = Math.ceil(SCENE_MARGIN_PX / cellDevicePx);
+    const left = Math.max(arena.x, Math.floor(visible.x) - margin);
+    const top = Math.max(arena.y, Math.floor(visible.y) - margin);
+    const right = Math.min(arena.x + arena.width, Math.ceil(visible.x + visible.width) + margin);
+    const bottom = Math.min(arena.y + arena.height, Math.ceil(visible.y + visible.height) + margin);
+    const bounds = { x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+
+    // Um único canvas, reaproveitado: o padrão da grade continua ligado
+    // ao mesmo contexto
+    this.sceneCanvas ??= createLayer(1);
+    const canvas = this.sceneCanvas;
+    canvas.width = Math.max(1, Math.ceil(bounds.width * cellDevicePx));
+    canvas.height = Math.max(1, Math.ceil(bounds.height * cellDevicePx));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    const scale = cellDevicePx / cellUnits;
+    ctx.setTransform(scale, 0, 0, scale, -bounds.x * cellDevicePx, -bounds.y * cellDevicePx);
+    draw(ctx, bounds);
+
+    this.scene = { key, layer: { canvas, bounds } };
+    return this.scene.layer;
+  }
+
+  /**
+   * Descarta tudo e libera a memória da cena (ex.: ao desmontar o canvas)
+   */
+  clear(): void {
+    this.grid = null;
+    this.sprites.clear();
+    this.spriteSize = 0;
+    this.scene = null;
+    if (this.sceneCanvas) {
+      // Tamanho zero libera o buffer antes do coletor de lixo
+      this.sceneCanvas.width = 0;
+      this.sceneCanvas.height = 0;
+      this.sceneCanvas = null;
+    }
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Catálogo - Frutas e efeitos do jogo
+ *
+ * Responsabilidades:
+ * - Descrever cada fruta (emoji, pontos, efeitos que sorteia, cores, som)
+ *   e cada efeito (emoji, duração, velocidade, cor da barra, som)
+ * - Dar um fallback para tipos que o cliente não conhece (servidor mais
+ *   novo), em vez de tratá-los como maçã
+ *
+ * Padrão: Dados estáticos + funções de consulta
+ * - Renderer, ajuda do lobby, indicador de efeito, motor offline,
+ *   resultados, estatísticas e sons leem daqui
+ * - Nomes e descrições ficam nos catálogos de tradução (nameKey...)
+ *
+ * Fruta ou efeito novo: acrescente o tipo em protocol.ts, a entrada
+ * aqui e as chaves de tradução em locales/.
+ */
+
+import type { MessageKey, Translator } from './i18n';
+import type { ActiveEffect, EffectType, FruitType } from './protocol';
+import type { SoundId } from './sounds';
+
+export interface FruitInfo {
+  id: string;
+  emoji: string;
+  points: number;
+  /** Ao comer, um destes efeitos é sorteado (vazio = nenhum) */
+  effects: EffectType[];
+  /** Classes Tailwind do cartão na ajuda do lobby */
+  colors: { border: string; title: string };
+  /** Som tocado quando o jogador local come a fruta */
+  sound: SoundId;
+  nameKey: MessageKey;
+  /** false no fallback de tipos desconhecidos */
+  known: boolean;
+}
+
+export interface EffectInfo {
+  id: string;
+  emoji: string;
+  durationMs: number;
+  /** Multiplica a velocidade da cobra enquanto ativo */
+  speedMultiplier: number;
+  /** Fundo da barra de tempo (os temas podem trocar, ver themes.ts) */
+  barColor: string;
+  /** Cor da aura desenhada em volta da cobra afetada (idem) */
+  aura: string;
+  /** Som tocado quando o efeito começa ou é renovado no jogador local */
+  sound: SoundId;
+  nameKey: MessageKey;
+  descriptionKey: MessageKey;
+  known: boolean;
+}
+
+export const FRUITS: Record<FruitType, FruitInfo> = {
+  apple: {
+    id: 'apple',
+    emoji: '🍎',
+    points: 10,
+    effects: [],
+    colors: { border: 'border-red-500', title: 'text-red-300' },
+    sound: 'apple',
+    nameKey: 'fruit.apple',
+    known: true,
+  },
+  mango: {
+    id: 'mango',
+    emoji: '🥭',
+    points: 20,
+    effects: ['speedBoost', 'slowDown'],
+    colors: { border: 'border-amber-500', title: 'text-amber-300' },
+    sound: 'mango',
+    nameKey: 'fruit.mango',
+    known: true,
+  },
+};
+
+export const EFFECTS: Record<EffectType, EffectInfo> = {
+  speedBoost: {
+    id: 'speedBoost',
+    emoji: '🍊',
+    durationMs: 10000,
+    speedMultiplier: 1.5,
+    barColor: 'linear-gradient(to right, #f97316, #eab308)',
+    aura: '#f97316',
+    sound: 'speedBoost',
+    nameKey: 'effect.speedBoost',
+    descriptionKey: 'effect.speedBoost.description',
+    known: true,
+  },
+  slowDown: {
+    id: 'slowDown',
+    emoji: '🍇',
+    durationMs: 10000,
+    speedMultiplier: 0.5,
+    barColor: 'linear-gradient(to right, #a855f7, #6366f1)',
+    aura: '#a855f7',
+    sound: 'slowDown',
+    nameKey: 'effect.slowDown',
+    descriptionKey: 'effect.slowDown.description',
+    known: true,
+  },
+};
+
+export const FRUIT_TYPES = Object.keys(FRUITS) as FruitType[];
+
+export const EFFECT_TYPES = Object.keys(EFFECTS) as EffectType[];
+
+/** Fruta desconhecida: sem pontos previstos nem efeitos */
+const UNKNOWN_FRUIT: Omit<FruitInfo, 'id'> = {
+  emoji: '❔',
+  points: 0,
+  effects: [],
+  colors: { border: 'border-slate-500', title: 'text-gray-300' },
+  sound: 'fruit',
+  nameKey: 'fruit.unknown',
+  known: false,
+};
+
+/** Efeito desconhecido: duração padrão, sem mudar a velocidade prevista */
+const UNKNOWN_EFFECT: Omit<EffectInfo, 'id'> = {
+  emoji: '✨',
+  durationMs: 10000,
+  speedMultiplier: 1,
+  barColor: 'linear-gradient(to right, #64748b, #94a3b8)',
+  aura: '#94a3b8',
+  sound: 'effect',
+  nameKey: 'effect.unknown',
+  descriptionKey: 'effect.unknown.description',
+  known: false,
+};
+
+export function isFruitType(type: string): type is FruitType {
+  return Object.prototype.hasOwnProperty.call(FRUITS, type);
+}
+
+export function isEffectType(type: string): type is EffectType {
+  return Object.prototype.hasOwnProperty.call(EFFECTS, type);
+}
+
+/**
+ * Dados de uma fruta; tipos desconhecidos recebem o fallback
+ */
+export function fruitInfo(type: string): FruitInfo {
+  return isFruitType(type) ? FRUITS[type] : { ...UNKNOWN_FRUIT, id: type };
+}
+
+/**
+ * Dados de um efeito; tipos desconhecidos recebem o fallback
+ */
+export function effectInfo(type: string): EffectInfo {
+  return isEffectType(type) ? EFFECTS[type] : { ...UNKNOWN_EFFECT, id: type };
+}
+
+/**
+ * Nome traduzido de uma fruta (desconhecida: mostra o tipo recebido)
+ */
+export function fruitName(type: string, t: Translator): string {
+  return t(fruitInfo(type).nameKey, { type });
+}
+
+/**
+ * Nome traduzido de um efeito (desconhecido: mostra o tipo recebido)
+ */
+export function effectName(type: string, t: Translator): string {
+  return t(effectInfo(type).nameKey, { type });
+}
+
+/**
+ * Tempo restante de um efeito e fração da barra (1 = cheia)
+ *
+ * A barra é medida pela duração do catálogo; se o servidor der mais
+ * tempo que isso, ela fica cheia até o restante caber na duração.
+ */
+export function effectProgress(effect: ActiveEffect, now: number): { remainingMs: number; fraction: number } {
+  const remainingMs = Math.max(0, effect.endTime - now);
+  const total = Math.max(effectInfo(effect.type).durationMs, remainingMs);
+  return { remainingMs, fraction: total > 0 ? remainingMs / total : 0 };
+}
+
+/**
+ * Contador com uma entrada por tipo conhecido (zerado por padrão)
+ *
+ * @example countsByType(FRUIT_TYPES) // { apple: 0, mango: 0 }
+ */
+export function countsByType<T extends string>(
+  types: readonly T[],
+  value: (type: T) => number = () => 0
+): Record<T, number> {
+  return Object.fromEntries(types.map((type) => [type, value(type)])) as Record<T, number>;
+}
@@ -0,0 +1,171 @@
+/**
+ * Chat - Mensagens e emotes entre jogadores da mesma sala
+ *
+ * Responsabilidades:
+ * - Definir os emotes rápidos (teclas 1-9) e dar um fallback para ids
+ *   que o cliente não conhece
+ * - Limpar o texto das mensagens e limitar o histórico
+ * - Limitar a frequência de envios (RateLimiter)
+ *
+ * Padrão: Funções puras + classe sem dependência de React/DOM
+ * - Usadas pelo useWebSocket (ChatControls) e pelos componentes de chat
+ *
+ * O servidor também deve limitar a frequência; o limite do cliente evita
+ * que um dedo pesado no Enter vire spam e protege a tela de quem envia
+ * rápido demais (mensagens de outro jogador acima do limite são
+ * descartadas ao chegar).
+ */
+
+import type { MessageKey, Translator } from './i18n';
+import { displayName } from './profile';
+import type { ChatMessage } from './protocol';
+
+/** Maior mensagem aceita, em caracteres */
+export const MAX_CHAT_LENGTH = 140;
+
+/** Mensagens guardadas no histórico da sala */
+export const MAX_CHAT_HISTORY = 50;
+
+/** Tempo que um emote fica sobre a cobra */
+export const EMOTE_DURATION_MS = 2500;
+
+/** Tempo que uma mensagem fica visível com o chat da partida fechado */
+export const CHAT_FADE_MS = 8000;
+
+/** Envios permitidos por janela de tempo */
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+export const CHAT_RATE_LIMIT: RateLimit = { limit: 5, windowMs: 10000 };
+export const EMOTE_RATE_LIMIT: RateLimit = { limit: 3, windowMs: 3000 };
+
+export interface EmoteInfo {
+  id: string;
+  emoji: string;
+  nameKey: MessageKey;
+}
+
+/** Emotes na ordem das teclas 1-9 */
+export const EMOTES: EmoteInfo[] = [
+  { id: 'wave', emoji: '👋', nameKey: 'emote.wave' },
+  { id: 'thumbsUp', emoji: '👍', nameKey: 'emote.thumbsUp' },
+  { id: 'laugh', emoji: '😂', nameKey: 'emote.laugh' },
+  { id: 'wow', emoji: '😮', nameKey: 'emote.wow' },
+  { id: 'angry', emoji: '😡', nameKey: 'emote.angry' },
+  { id: 'fire', emoji: '🔥', nameKey: 'emote.fire' },
+  { id: 'skull', emoji: '💀', nameKey: 'emote.skull' },
+  { id: 'party', emoji: '🎉', nameKey: 'emote.party' },
+  { id: 'gg', emoji: '🤝', nameKey: 'emote.gg' },
+];
+
+/** Emoji de emotes desconhecidos (servidor mais novo) */
+const UNKNOWN_EMOTE_EMOJI = '💬';
+
+/**
+ * Mensagem recebida, com o instante de chegada no relógio local
+ */
+export interface ChatEntry extends ChatMessage {
+  receivedAt: number;
+}
+
+/**
+ * Emote em exibição sobre a cobra de um jogador
+ */
+export interface EmoteBubble {
+  playerId: string;
+  emote: string;
+  /** Instante (Date.now) em que apareceu */
+  shownAt: number;
+}
+
+/**
+ * Emote da tecla pressionada ("1".."9"), ou null
+ */
+export function emoteForKey(key: string): EmoteInfo | null {
+  const index = Number(key) - 1;
+  return Number.isInteger(index) && key.length === 1 ? (EMOTES[index] ?? null) : null;
+}
+
+/**
+ * Emoji de um emote; ids desconhecidos viram um balão genérico
+ */
+export function emoteEmoji(id: string): string {
+  return EMOTES.find((emote) => emote.id === id)?.emoji ?? UNKNOWN_EMOTE_EMOJI;
+}
+
+/**
+ * Nome de quem enviou: o da mensagem, o do jogador na sala, ou o padrão
+ *
+ * @param players - Jogadores do lobby ou cobras da partida
+ */
+export function senderName(
+  message: ChatMessage,
+  players: { id: string; name?: string }[],
+  t: Translator
+): string {
+  const player = players.find((other) => other.id === message.playerId);
+  return displayName({ id: message.playerId, name: message.name || player?.name }, t);
+}
+
+/**
+ * Limpa o texto digitado (espaços, tamanho); vazio = nada a enviar
+ */
+export function normalizeChatText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().slice(0, MAX_CHAT_LENGTH);
+}
+
+/**
+ * Acrescenta uma mensagem, mantendo só as mais recentes
+ */
+export function appendMessage(history: ChatEntry[], entry: ChatEntry): ChatEntry[] {
+  return [...history, entry].slice(-MAX_CHAT_HISTORY);
+}
+
+/**
+ * Mostra um emote, substituindo o anterior do mesmo jogador e
+ * descartando os que já sumiram
+ */
+export function showEmote(bubbles: EmoteBubble[], bubble: EmoteBubble): EmoteBubble[] {
+  return [
+    ...bubbles.filter(
+      (other) => other.playerId !== bubble.playerId && bubble.shownAt - other.shownAt < EMOTE_DURATION_MS
+    ),
+    bubble,
+  ];
+}
+
+/**
+ * Limite de envios por janela deslizante
+ *
+ * tryAcquire() registra o envio quando cabe; availableAt() diz quando o
+ * próximo volta a caber.
+ */
+export class RateLimiter {
+  private sent: number[] = [];
+
+  constructor(private readonly rate: RateLimit) {}
+
+  /**
+   * Registra um envio, se couber na janela
+   *
+   * @returns false quando o limite foi atingido (nada é registrado)
+   */
+  tryAcquire(now: number): boolean {
+    this.sent = this.sent.filter((at) => now - at < this.rate.windowMs);
+    if (this.sent.length >= this.rate.limit) return false;
+
+    this.sent.push(now);
+    return true;
+  }
+
+  /**
+   * Instante em que o próximo envio volta a caber
+   */
+  availableAt(now: number): number {
+    const recent = this.sent.filter((at) => now - at < this.rate.windowMs);
+    if (recent.length < this.rate.limit) return now;
+    return recent[recent.length - this.rate.limit] + this.rate.windowMs;
+  }
+}
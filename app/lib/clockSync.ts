@@ -0,0 +1,101 @@
+/**
+ * Sincronização de relógio - Latência e diferença para o servidor
+ *
+ * Responsabilidades:
+ * - Transformar cada ping/pong em uma amostra: ida e volta (RTT) e
+ *   diferença entre o relógio do servidor e o do navegador
+ * - Suavizar as amostras: RTT por média móvel exponencial, jitter como
+ *   no RFC 3550 e diferença pela média das amostras mais rápidas
+ *
+ * Padrão: Classe sem dependência de React/DOM
+ * - O useWebSocket envia os pings, registra os pongs e publica o
+ *   resumo (ClockStats) no estado do React
+ *
+ * Estilo NTP: supondo ida e volta simétricas, o servidor carimbou o pong
+ * no meio do caminho, então offset = serverTime + rtt/2 - recebidoEm.
+ * Amostras com RTT menor têm menos assimetria possível e pesam mais.
+ */
+
+/** Amostras mantidas para estimar a diferença de relógio */
+const WINDOW = 8;
+
+/** Fração das amostras (as de menor RTT) usadas na diferença */
+const BEST_FRACTION = 0.5;
+
+/** Peso de cada amostra nova na média do RTT */
+const RTT_SMOOTHING = 0.25;
+
+/** Divisor do jitter do RFC 3550 */
+const JITTER_GAIN = 16;
+
+/** Pongs que demoram mais que isso são descartados */
+const MAX_RTT_MS = 10000;
+
+export interface ClockStats {
+  /** Ida e volta suavizada; null antes da primeira amostra */
+  rttMs: number | null;
+  /** Variação do RTT entre pongs consecutivos */
+  jitterMs: number | null;
+  /** Relógio do servidor menos o do navegador */
+  offsetMs: number;
+}
+
+export const INITIAL_CLOCK_STATS: ClockStats = { rttMs: null, jitterMs: null, offsetMs: 0 };
+
+interface Sample {
+  rttMs: number;
+  offsetMs: number;
+}
+
+export class ClockSync {
+  private samples: Sample[] = [];
+  private rttMs: number | null = null;
+  private jitterMs: number | null = null;
+  private lastRttMs: number | null = null;
+
+  /**
+   * Registra um pong
+   *
+   * @param sentAt - Quando o ping saiu (relógio do navegador, ecoado pelo servidor)
+   * @param serverTime - Relógio do servidor ao responder
+   * @param receivedAt - Quando o pong chegou (relógio do navegador)
+   * @returns false se a amostra foi descartada (RTT negativo ou alto demais)
+   */
+  record(sentAt: number, serverTime: number, receivedAt: number): boolean {
+    const rttMs = receivedAt - sentAt;
+    if (rttMs < 0 || rttMs > MAX_RTT_MS) return false;
+
+    this.samples.push({ rttMs, offsetMs: serverTime + rttMs / 2 - receivedAt });
+    if (this.samples.length > WINDOW) this.samples.shift();
+
+    this.rttMs = this.rttMs === null ? rttMs : this.rttMs + (rttMs - this.rttMs) * RTT_SMOOTHING;
+    if (this.lastRttMs !== null) {
+      const delta = Math.abs(rttMs - this.lastRttMs);
+      this.jitterMs = (this.jitterMs ?? 0) + (delta - (this.jitterMs ?? 0)) / JITTER_GAIN;
+    }
+    this.lastRttMs = rttMs;
+    return true;
+  }
+
+  /**
+   * Instante atual no relógio do servidor (epoch ms)
+   */
+  now(): number {
+    return Date.now() + this.offset();
+  }
+
+  /**
+   * Resumo atual das medições
+   */
+  stats(): ClockStats {
+    return { rttMs: this.rttMs, jitterMs: this.jitterMs, offsetMs: this.offset() };
+  }
+
+  private offset(): number {
+    if (this.samples.length === 0) return 0;
+    const best = [...this.samples]
+      .sort((a, b) => a.rttMs - b.rttMs)
+      .slice(0, Math.max(1, Math.ceil(this.samples.length * BEST_FRACTION)));
+    return best.reduce((sum, sample) => sum + sample.offsetMs, 0) / best.length;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Delta de estado - Aplica patches incrementais ao GameState local
+ *
+ * Responsabilidades:
+ * - Aplicar um delta sobre o último estado conhecido
+ * - Detectar lacunas na sequência de deltas
+ *
+ * Padrão: Delta Compression
+ * - O servidor envia só o que mudou desde o tick anterior
+ * - Cobras paradas no corpo não são retransmitidas
+ * - Cada delta tem um número de sequência; uma lacuna exige novo snapshot
+ *
+ * Remoções maiores que o corpo não combinam com o estado local: lançam
+ * ProtocolError em vez de corromper a cobra.
+ */
+
+import type { GameState, GameStateDelta, Snake, SnakeDelta } from './protocol';
+import { ProtocolError } from './validation';
+
+/**
+ * Resultado da verificação de sequência de um delta
+ * - apply: é o próximo esperado
+ * - stale: já aplicado ou antigo, ignorar
+ * - gap: faltam deltas, pedir snapshot completo
+ */
+export type DeltaOrder = 'apply' | 'stale' | 'gap';
+
+/**
+ * Classifica um delta em relação ao último número de sequência aplicado
+ *
+ * @param lastSeq - Sequência do estado local, ou null se não há base
+ * @param seq - Sequência do delta recebido
+ */
+export function checkDeltaOrder(lastSeq: number | null, seq: number): DeltaOrder {
+  if (lastSeq === null) return 'gap';
+  if (seq <= lastSeq) return 'stale';
+  if (seq === lastSeq + 1) return 'apply';
+  return 'gap';
+}
+
+/**
+ * Aplica um delta sobre o estado atual, sem mutar o original
+ *
+ * Cobras sem mudanças mantêm a mesma referência.
+ *
+ * @param state - Estado base
+ * @param delta - Patch recebido do servidor
+ * @returns Novo estado
+ * @throws ProtocolError se o delta remove mais segmentos do que a cobra tem
+ */
+export function applyDelta(state: GameState, delta: GameStateDelta): GameState {
+  const removed = new Set(delta.snakesRemoved ?? []);
+  const changes = new Map((delta.snakes ?? []).map((change, index) => [change.id, { change, index }]));
+
+  const snakes = state.snakes
+    .filter((snake) => !removed.has(snake.id))
+    .map((snake) => {
+      const entry = changes.get(snake.id);
+      return entry ? applySnakeDelta(snake, entry.change, entry.index) : snake;
+    });
+
+  if (delta.snakesAdded) {
+    const known = new Set(snakes.map((snake) => snake.id));
+    snakes.push(...delta.snakesAdded.filter((snake) => !known.has(snake.id)));
+  }
+
+  let food = state.food;
+  if (delta.fruitDespawned?.length) {
+    const gone = new Set(delta.fruitDespawned.map((point) => `${point.x},${point.y}`));
+    food = food.filter((fruit) => !gone.has(`${fruit.x},${fruit.y}`));
+  }
+  if (delta.fruitSpawned?.length) {
+    food = [...food, ...delta.fruitSpawned];
+  }
+
+  return {
+    ...state,
+    status: delta.status ?? state.status,
+    snakes,
+    food,
+  };
+}
+
+/**
+ * Aplica as mudanças de uma cobra
+ *
+ * @param index - Posição da mudança em delta.snakes (caminho do erro)
+ */
+function applySnakeDelta(snake: Snake, change: SnakeDelta, index: number): Snake {
+  let body = snake.body;
+
+  const checkRemoved = (field: 'headRemoved' | 'tailRemoved', count: number) => {
+    if (count > body.length) {
+      throw new ProtocolError(
+        'gameStateDelta',
+        `$.snakes[${index}].${field}`,
+        `remove ${count} segmentos de um corpo com ${body.length}`
+      );
+    }
+  };
+
+  if (change.headRemoved) {
+    checkRemoved('headRemoved', change.headRemoved);
+    body = body.slice(change.headRemoved);
+  }
+  if (change.headAdded?.length) body = [...change.headAdded, ...body];
+  if (change.tailRemoved) {
+    checkRemoved('tailRemoved', change.tailRemoved);
+    body = body.slice(0, body.length - change.tailRemoved);
+  }
+  if (change.tailAdded?.length) body = [...body, ...change.tailAdded];
+
+  return {
+    ...snake,
+    body,
+    score: change.score ?? snake.score,
+    alive: change.alive ?? snake.alive,
+    activeEffects: change.activeEffects ?? snake.activeEffects,
+  };
+}
@@ -0,0 +1,316 @@
+/**
+ * LocalGameEngine - Motor de jogo local para o modo offline
+ *
+ * Responsabilidades:
+ * - Rodar o loop de ticks no navegador, sem servidor
+ * - Mover a cobra e aplicar mudanças de direção
+ * - Detectar colisão com paredes e com o próprio corpo
+ * - Gerar maçãs e mangas e contabilizar pontos
+ * - Aplicar os efeitos speedBoost e slowDown
+ *
+ * Padrão: Simulação autoritativa local
+ * - Produz exatamente o mesmo GameState que o servidor envia
+ * - O resto do cliente (GameCanvas, EffectIndicator) não distingue
+ *   o motor local do backend
+ * - O loop roda mais rápido que a cobra (baseSpeed < 1), mas só emite
+ *   estado quando algo mudou: a interpolação do GameCanvas assume um
+ *   passo por estado, e estados repetidos fariam a cobra andar e parar
+ *
+ * Regras (pontos, efeitos e durações vêm de catalog.ts):
+ * - Maçã: +10 pontos
+ * - Manga: +20 pontos e um efeito aleatório (speedBoost ou slowDown)
+ * - Efeitos duram 10s; comer outro do mesmo tipo renova a duração
+ */
+
+import { effectInfo, fruitInfo } from '../catalog';
+import type { PlayerProfile } from '../profile';
+import type { ActiveEffect, Direction, EffectType, Fruit, GameState, Point, Snake } from '../protocol';
+
+export interface EngineConfig {
+  gameWidth: number;
+  gameHeight: number;
+  /** Intervalo do loop em ms */
+  tickMs: number;
+  /** Células por tick em velocidade normal */
+  baseSpeed: number;
+  initialLength: number;
+  /** Quantidade de frutas mantidas na arena */
+  fruitCount: number;
+  /** Probabilidade de uma fruta nova ser manga */
+  mangoChance: number;
+}
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+  gameWidth: 100,
+  gameHeight: 60,
+  tickMs: 50,
+  baseSpeed: 0.5,
+  initialLength: 3,
+  fruitCount: 3,
+  mangoChance: 0.25,
+};
+
+/** ID da cobra do jogador local */
+export const LOCAL_PLAYER_ID = 'local-player';
+
+/**
+ * Estado interno de uma cobra além do que vai para o GameState
+ */
+interface SnakeRuntime {
+  direction: Direction;
+  /** Direção pedida, aplicada no próximo passo */
+  pendingDirection: Direction | null;
+  /** Fração de célula acumulada entre ticks */
+  progress: number;
+  /** Segmentos a crescer nos próximos passos */
+  growth: number;
+}
+
+export class LocalGameEngine {
+  private readonly config: EngineConfig;
+  private state: GameState;
+  private runtime = new Map<string, SnakeRuntime>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * @param onState - Chamado com um novo GameState após cada tick que
+   *   mudou algo (passo de alguma cobra ou efeito expirado)
+   * @param config - Ajustes sobre DEFAULT_ENGINE_CONFIG
+   * @param random - Fonte de aleatoriedade (substituível para replays determinísticos)
+   */
+  constructor(
+    private readonly onState: (state: GameState) => void,
+    config: Partial<EngineConfig> = {},
+    private readonly random: () => number = Math.random
+  ) {
+    this.config = { ...DEFAULT_ENGINE_CONFIG, ...config };
+    this.state = this.createLobbyState();
+  }
+
+  /**
+   * Reinicia a partida e inicia o loop
+   *
+   * @param profile - Apelido e cor da cobra local
+   */
+  start(profile?: PlayerProfile): void {
+    this.stop();
+
+    const { gameWidth, gameHeight, initialLength } = this.config;
+    const head = { x: Math.floor(gameWidth / 4), y: Math.floor(gameHeight / 2) };
+    const body = Array.from({ length: initialLength }, (_, index) => ({ x: head.x - index, y: head.y }));
+
+    this.runtime = new Map([
+      [LOCAL_PLAYER_ID, { direction: { dx: 1, dy: 0 }, pendingDirection: null, progress: 0, growth: 0 }],
+    ]);
+    this.state = {
+      status: 'playing',
+      snakes: [
+        {
+          id: LOCAL_PLAYER_ID,
+          body,
+          alive: true,
+          score: 0,
+          activeEffects: [],
+          name: profile?.name || undefined,
+          color: profile?.color,
+        },
+      ],
+      food: [],
+      gameWidth,
+      gameHeight,
+    };
+    this.state.food = this.refillFood([], this.state.snakes);
+
+    this.onState(this.state);
+    this.timer = setInterval(() => this.tick(), this.config.tickMs);
+  }
+
+  /**
+   * Para o loop sem alterar o último estado
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Pede uma mudança de direção, com as mesmas regras do servidor
+   * Reversões de 180° são ignoradas
+   *
+   * @param direction - Direção desejada { dx, dy }
+   * @param snakeId - Cobra a controlar
+   */
+  setDirection(direction: Direction, snakeId: string = LOCAL_PLAYER_ID): void {
+    const runtime = this.runtime.get(snakeId);
+    if (!runtime) return;
+
+    const current = runtime.direction;
+    if (direction.dx === -current.dx && direction.dy === -current.dy) return;
+    if (Math.abs(direction.dx) + Math.abs(direction.dy) !== 1) return;
+
+    runtime.pendingDirection = direction;
+  }
+
+  getState(): GameState {
+    return this.state;
+  }
+
+  /**
+   * Um passo da simulação
+   *
+   * 1. Expirar efeitos
+   * 2. Mover cada cobra conforme sua velocidade
+   * 3. Verificar colisões e frutas comidas
+   * 4. Repor frutas e emitir o novo estado, se algo mudou
+   */
+  private tick(): void {
+    const now = Date.now();
+    let food = this.state.food;
+    let changed = false;
+
+    const snakes = this.state.snakes.map((snake) => {
+      if (!snake.alive) return snake;
+
+      const runtime = this.runtime.get(snake.id)!;
+      const activeEffects = snake.activeEffects.filter((effect) => effect.endTime > now);
+      if (activeEffects.length !== snake.activeEffects.length) changed = true;
+      let current: Snake = { ...snake, activeEffects };
+
+      runtime.progress += this.config.baseSpeed * speedOf(current.activeEffects);
+      while (runtime.progress >= 1 && current.alive) {
+        runtime.progress -= 1;
+        changed = true;
+        const step = this.step(current, runtime, food, now);
+        current = step.snake;
+        food = step.food;
+      }
+
+      return current;
+    });
+
+    // Sem passo nem efeito expirado, o estado seria igual ao anterior
+    if (!changed) return;
+
+    const alive = snakes.some((snake) => snake.alive);
+    if (!alive) this.stop();
+
+    this.state = {
+      ...this.state,
+      status: alive ? 'playing' : 'finished',
+      snakes,
+      food: alive ? this.refillFood(food, snakes) : food,
+    };
+    this.onState(this.state);
+  }
+
+  /**
+   * Move a cobra uma célula
+   */
+  private step(
+    snake: Snake,
+    runtime: SnakeRuntime,
+    food: Fruit[],
+    now: number
+  ): { snake: Snake; food: Fruit[] } {
+    if (runtime.pendingDirection) {
+      runtime.direction = runtime.pendingDirection;
+      runtime.pendingDirection = null;
+    }
+
+    const head = snake.body[0];
+    const next = { x: head.x + runtime.direction.dx, y: head.y + runtime.direction.dy };
+
+    if (this.hitsWall(next) || this.hitsBody(next, snake.body, runtime.growth > 0)) {
+      return { snake: { ...snake, alive: false, activeEffects: [] }, food };
+    }
+
+    let { score, activeEffects } = snake;
+    const eaten = food.find((fruit) => fruit.x === next.x && fruit.y === next.y);
+    if (eaten) {
+      food = food.filter((fruit) => fruit !== eaten);
+      const fruit = fruitInfo(eaten.type);
+      score += fruit.points;
+      runtime.growth += 1;
+      if (fruit.effects.length > 0) {
+        const type = this.pick(fruit.effects);
+        activeEffects = applyEffect(activeEffects, type, now + effectInfo(type).durationMs);
+      }
+    }
+
+    let body = [next, ...snake.body];
+    if (runtime.growth > 0) {
+      runtime.growth -= 1;
+    } else {
+      body = body.slice(0, -1);
+    }
+
+    return { snake: { ...snake, body, score, activeEffects }, food };
+  }
+
+  private hitsWall(point: Point): boolean {
+    return point.x < 0 || point.y < 0 || point.x >= this.config.gameWidth || point.y >= this.config.gameHeight;
+  }
+
+  /**
+   * A cauda sai do lugar no mesmo passo, exceto quando a cobra está crescendo
+   */
+  private hitsBody(point: Point, body: Point[], growing: boolean): boolean {
+    const solid = growing ? body : body.slice(0, -1);
+    return solid.some((segment) => segment.x === point.x && segment.y === point.y);
+  }
+
+  private pick<T>(options: readonly T[]): T {
+    return options[Math.floor(this.random() * options.length)];
+  }
+
+  /**
+   * Completa a arena até fruitCount frutas, em células livres
+   */
+  private refillFood(food: Fruit[], snakes: Snake[]): Fruit[] {
+    const occupied = new Set<string>();
+    snakes.forEach((snake) => snake.body.forEach((p) => occupied.add(`${p.x},${p.y}`)));
+    food.forEach((fruit) => occupied.add(`${fruit.x},${fruit.y}`));
+
+    const result = [...food];
+    const { gameWidth, gameHeight, fruitCount, mangoChance } = this.config;
+    let attempts = 0;
+
+    while (result.length < fruitCount && attempts < 100) {
+      attempts++;
+      const x = Math.floor(this.random() * gameWidth);
+      const y = Math.floor(this.random() * gameHeight);
+      if (occupied.has(`${x},${y}`)) continue;
+
+      occupied.add(`${x},${y}`);
+      result.push({ x, y, type: this.random() < mangoChance ? 'mango' : 'apple' });
+    }
+
+    return result;
+  }
+
+  private createLobbyState(): GameState {
+    return {
+      status: 'lobby',
+      snakes: [],
+      food: [],
+      gameWidth: this.config.gameWidth,
+      gameHeight: this.config.gameHeight,
+    };
+  }
+}
+
+/**
+ * Multiplicador de velocidade resultante dos efeitos ativos
+ */
+function speedOf(effects: ActiveEffect[]): number {
+  return effects.reduce((speed, effect) => speed * effectInfo(effect.type).speedMultiplier, 1);
+}
+
+/**
+ * Adiciona um efeito, renovando a duração se já estiver ativo
+ */
+function applyEffect(effects: ActiveEffect[], type: EffectType, endTime: number): ActiveEffect[] {
+  return [...effects.filter((effect) => effect.type !== type), { type, endTime }];
+}
@@ -0,0 +1,59 @@
+/**
+ * Medição do tempo de quadro do renderer
+ *
+ * Responsabilidades:
+ * - Guardar quanto cada quadro redesenhado levou (CPU, comandos do canvas)
+ * - Resumir a última janela: média, máximo e quadros redesenhados por
+ *   segundo
+ *
+ * Padrão: Classe sem dependência de React/DOM
+ * - O GameCanvas registra cada quadro e desenha o resumo quando a opção
+ *   "tempo de quadro" está ligada
+ *
+ * Quadros pulados (nada mudou) não entram na média; por isso o número de
+ * quadros por segundo pode ficar abaixo da taxa da tela.
+ */
+
+/** Janela do resumo, em ms */
+const WINDOW_MS = 1000;
+
+export interface FrameStats {
+  averageMs: number;
+  maxMs: number;
+  /** Quadros redesenhados na última janela */
+  paintedPerSecond: number;
+}
+
+export class FrameTimer {
+  private samples: { at: number; ms: number }[] = [];
+
+  /**
+   * Registra um quadro
+   *
+   * @param at - Instante do quadro (performance.now())
+   * @param ms - Duração do desenho
+   */
+  record(at: number, ms: number): void {
+    this.samples.push({ at, ms });
+    this.prune(at);
+  }
+
+  /**
+   * Resumo da última janela
+   */
+  stats(now: number): FrameStats {
+    this.prune(now);
+    const count = this.samples.length;
+    const total = this.samples.reduce((sum, sample) => sum + sample.ms, 0);
+    return {
+      averageMs: count > 0 ? total / count : 0,
+      maxMs: this.samples.reduce((max, sample) => Math.max(max, sample.ms), 0),
+      paintedPerSecond: (count * 1000) / WINDOW_MS,
+    };
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - WINDOW_MS;
+    while (this.samples.length > 0 && this.samples[0].at < cutoff) this.samples.shift();
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * i18n - Idiomas, traduções e formatação de números
+ *
+ * Responsabilidades:
+ * - Definir os idiomas suportados (pt-BR e en) e detectar o do navegador
+ * - Traduzir chaves dos catálogos (locales/) com parâmetros {nome}
+ * - Formatar números e posições (1º / 1st) conforme o idioma
+ *
+ * Padrão: Funções puras + objetos I18n em cache por idioma
+ * - Componentes usam o hook useI18n (idioma salvo ou detectado)
+ * - Código fora do React (anúncios, canvas) recebe o I18n como parâmetro
+ *
+ * Uso:
+ * const { t, formatNumber } = useI18n();
+ * t('lobby.playersCount', { count: 3 }) // "3 jogadores online"
+ *
+ * Parâmetros numéricos são formatados com o idioma ("1.250" / "1,250").
+ * Chave ausente no catálogo cai para o pt-BR e, por fim, para a própria
+ * chave.
+ */
+
+import { en } from './locales/en';
+import { MessageKey, Messages, ptBR } from './locales/pt-BR';
+
+export type { MessageKey } from './locales/pt-BR';
+
+export type Locale = 'pt-BR' | 'en';
+
+export const LOCALES: Locale[] = ['pt-BR', 'en'];
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+/** Nome de cada idioma no próprio idioma (não é traduzido) */
+export const LOCALE_LABELS: Record<Locale, string> = {
+  'pt-BR': 'Português (Brasil)',
+  en: 'English',
+};
+
+const CATALOGUES: Record<Locale, Messages> = {
+  'pt-BR': ptBR,
+  en,
+};
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+export interface I18n {
+  locale: Locale;
+  t: Translator;
+  /** Número com separadores do idioma; fractionDigits fixa as casas decimais */
+  formatNumber: (value: number, fractionDigits?: number) => string;
+  /** Posição em uma classificação: "1º" / "1st" */
+  formatOrdinal: (value: number) => string;
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * Aceita textos de outras fontes (ex.: mensagens do servidor) junto com
+ * chaves de tradução geradas localmente
+ */
+export function isMessageKey(value: string): value is MessageKey {
+  return Object.prototype.hasOwnProperty.call(ptBR, value);
+}
+
+/**
+ * Primeiro idioma suportado na lista de preferências do navegador
+ * "pt", "pt-PT" e "pt-BR" viram pt-BR; qualquer "en-*" vira en
+ *
+ * @param languages - navigator.languages
+ */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (base === 'pt') return 'pt-BR';
+    if (base === 'en') return 'en';
+  }
+  return DEFAULT_LOCALE;
+}
+
+const ENGLISH_ORDINALS: Record<string, string> = { one: 'st', two: 'nd', few: 'rd', other: 'th' };
+
+function createI18n(locale: Locale): I18n {
+  const messages = CATALOGUES[locale];
+  const numbers = new Intl.NumberFormat(locale);
+  const ordinals = new Intl.PluralRules(locale, { type: 'ordinal' });
+
+  const formatNumber = (value: number, fractionDigits?: number) =>
+    fractionDigits === undefined
+      ? numbers.format(value)
+      : value.toLocaleString(locale, {
+          minimumFractionDigits: fractionDigits,
+          maximumFractionDigits: fractionDigits,
+        });
+
+  const t: Translator = (key, params) => {
+    const template = messages[key] ?? ptBR[key] ?? key;
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? formatNumber(value) : value;
+    });
+  };
+
+  return {
+    locale,
+    t,
+    formatNumber,
+    formatOrdinal: (value) =>
+      locale === 'en' ? `${value}${ENGLISH_ORDINALS[ordinals.select(value)] ?? 'th'}` : `${value}º`,
+  };
+}
+
+const cache = new Map<Locale, I18n>();
+
+/**
+ * I18n de um idioma; a mesma referência a cada chamada (seguro como
+ * dependência de efeitos e memos)
+ */
+export function getI18n(locale: Locale): I18n {
+  let i18n = cache.get(locale);
+  if (!i18n) {
+    i18n = createI18n(locale);
+    cache.set(locale, i18n);
+  }
+  return i18n;
+}
@@ -0,0 +1,244 @@
+/**
+ * Input - Controles e fila de curvas do jogador
+ *
+ * Responsabilidades:
+ * - Definir as ações de controle e as teclas padrão de cada uma
+ * - Converter teclas (conforme o mapeamento salvo) e gamepads em direções
+ * - Não tratar como comando o que é digitado num campo de texto (chat)
+ * - Guardar uma fila curta de curvas pedidas entre ticks
+ * - Descartar reversões de 180° e repetições
+ * - Liberar no máximo uma curva por passo da cobra
+ *
+ * Padrão: Funções puras + classe sem dependência de React/DOM
+ * - Usada pelo hook useDirectionInput e pelo painel de configurações
+ *
+ * Exemplo: indo para a direita, ↑ e ← rápidos dentro do mesmo tick
+ * viram duas curvas em ticks seguidos, em vez de se perderem.
+ */
+
+import type { Translator } from './i18n';
+import type { Direction } from './protocol';
+
+/** Curvas guardadas além da que já foi liberada */
+export const MAX_QUEUED_TURNS = 3;
+
+export const UP: Direction = { dx: 0, dy: -1 };
+export const DOWN: Direction = { dx: 0, dy: 1 };
+export const LEFT: Direction = { dx: -1, dy: 0 };
+export const RIGHT: Direction = { dx: 1, dy: 0 };
+
+/**
+ * Ações remapeáveis; novas ações entram aqui e em DEFAULT_KEY_BINDINGS
+ */
+export type InputAction = 'up' | 'down' | 'left' | 'right';
+
+export const INPUT_ACTIONS: InputAction[] = ['up', 'down', 'left', 'right'];
+
+const ACTION_DIRECTIONS: Record<InputAction, Direction> = {
+  up: UP,
+  down: DOWN,
+  left: LEFT,
+  right: RIGHT,
+};
+
+/** Teclas de cada ação (event.key em minúsculas) */
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  up: ['arrowup', 'w'],
+  down: ['arrowdown', 's'],
+  left: ['arrowleft', 'a'],
+  right: ['arrowright', 'd'],
+};
+
+/**
+ * Normaliza event.key para o formato salvo nos mapeamentos
+ */
+export function normalizeKey(key: string): string {
+  return key.toLowerCase();
+}
+
+/**
+ * Nome legível de uma tecla salva
+ * O nome da ação fica no catálogo de traduções (action.<ação>)
+ */
+export function keyLabel(key: string, t: Translator): string {
+  const names: Record<string, string> = {
+    arrowup: '↑',
+    arrowdown: '↓',
+    arrowleft: '←',
+    arrowright: '→',
+    ' ': t('key.space'),
+  };
+  return names[key] ?? (key.length === 1 ? key.toUpperCase() : key.charAt(0).toUpperCase() + key.slice(1));
+}
+
+/**
+ * Tecla de texto digitada num campo (chat): vai para o texto, não vira
+ * comando. Teclas sem caractere (setas, Enter) continuam valendo, então
+ * a cobra segue controlável pelas setas com o chat aberto.
+ *
+ * @param key - event.key
+ * @param target - event.target
+ */
+export function isTextEntry(key: string, target: EventTarget | null): boolean {
+  if (key.length !== 1 || !target) return false;
+  const element = target as { tagName?: string; isContentEditable?: boolean };
+  return element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || !!element.isContentEditable;
+}
+
+/** Elementos que já tratam Enter/Espaço por conta própria */
+const INTERACTIVE_SELECTOR =
+  'button, a[href], input, select, textarea, summary, [contenteditable], [role="button"], [role="link"], [role="radio"], [role="checkbox"], [role="tab"]';
+
+/**
+ * O foco está num controle (botão, link, campo): Enter pertence a ele e
+ * não deve virar atalho
+ *
+ * @param target - event.target
+ */
+export function isInteractiveTarget(target: EventTarget | null): boolean {
+  const element = target as { closest?: (selector: string) => unknown } | null;
+  return typeof element?.closest === 'function' && element.closest(INTERACTIVE_SELECTOR) !== null;
+}
+
+/**
+ * Ação ligada a uma tecla, ou null
+ */
+export function actionForKey(bindings: KeyBindings, key: string): InputAction | null {
+  const normalized = normalizeKey(key);
+  return INPUT_ACTIONS.find((action) => bindings[action].includes(normalized)) ?? null;
+}
+
+/**
+ * Direção ligada a uma tecla, ou null
+ */
+export function directionForKey(bindings: KeyBindings, key: string): Direction | null {
+  const action = actionForKey(bindings, key);
+  return action ? ACTION_DIRECTIONS[action] : null;
+}
+
+/**
+ * Liga uma tecla a uma ação, tirando-a de qualquer outra ação
+ */
+export function bindKey(bindings: KeyBindings, action: InputAction, key: string): KeyBindings {
+  const normalized = normalizeKey(key);
+  const next = { ...bindings };
+  INPUT_ACTIONS.forEach((other) => {
+    next[other] = bindings[other].filter((bound) => bound !== normalized);
+  });
+  next[action] = [...next[action], normalized];
+  return next;
+}
+
+/**
+ * Remove uma tecla de uma ação
+ */
+export function unbindKey(bindings: KeyBindings, action: InputAction, key: string): KeyBindings {
+  return { ...bindings, [action]: bindings[action].filter((bound) => bound !== key) };
+}
+
+/**
+ * Partes do Gamepad usadas na leitura (mapeamento "standard")
+ */
+export interface GamepadLike {
+  buttons: readonly { pressed: boolean }[];
+  axes: readonly number[];
+}
+
+/** Botões do direcional no mapeamento standard */
+const GAMEPAD_DPAD: [number, Direction][] = [
+  [12, UP],
+  [13, DOWN],
+  [14, LEFT],
+  [15, RIGHT],
+];
+
+/**
+ * Direção indicada por um gamepad: direcional primeiro, depois o
+ * analógico esquerdo (eixo dominante, fora da zona morta)
+ *
+ * @param pad - Gamepad lido de navigator.getGamepads()
+ * @param deadZone - Raio (0..1) ignorado no centro do analógico
+ */
+export function gamepadDirection(pad: GamepadLike, deadZone: number): Direction | null {
+  const pressed = GAMEPAD_DPAD.find(([button]) => pad.buttons[button]?.pressed);
+  if (pressed) return pressed[1];
+
+  const x = pad.axes[0] ?? 0;
+  const y = pad.axes[1] ?? 0;
+  if (Math.hypot(x, y) < deadZone) return null;
+  if (Math.abs(x) > Math.abs(y)) return x > 0 ? RIGHT : LEFT;
+  return y > 0 ? DOWN : UP;
+}
+
+export function sameDirection(a: Direction, b: Direction): boolean {
+  return a.dx === b.dx && a.dy === b.dy;
+}
+
+export function isReversal(a: Direction, b: Direction): boolean {
+  return a.dx === -b.dx && a.dy === -b.dy;
+}
+
+/**
+ * Fila de curvas
+ *
+ * Cada curva é comparada com a última da fila (ou, com a fila vazia,
+ * com a direção atual da cobra). release() entrega uma curva e só volta
+ * a entregar depois de step(), chamado quando a cobra avança.
+ */
+export class DirectionQueue {
+  private queue: Direction[] = [];
+  /** Última direção liberada (ou observada no início da partida) */
+  private heading: Direction | null = null;
+  /** Já houve uma curva liberada desde o último passo */
+  private released = false;
+
+  /**
+   * Esvazia a fila (início/fim de partida, morte)
+   */
+  reset(): void {
+    this.queue = [];
+    this.heading = null;
+    this.released = false;
+  }
+
+  /**
+   * Pede uma curva
+   *
+   * @returns false se foi descartada (repetição, reversão ou fila cheia)
+   */
+  push(direction: Direction): boolean {
+    const reference = this.queue[this.queue.length - 1] ?? this.heading;
+    if (reference && (sameDirection(direction, reference) || isReversal(direction, reference))) return false;
+    if (this.queue.length >= MAX_QUEUED_TURNS) return false;
+
+    this.queue.push(direction);
+    return true;
+  }
+
+  /**
+   * Entrega a próxima curva, se nenhuma foi entregue neste passo
+   */
+  release(): Direction | null {
+    if (this.released) return null;
+
+    const next = this.queue.shift();
+    if (!next) return null;
+
+    this.heading = next;
+    this.released = true;
+    return next;
+  }
+
+  /**
+   * A cobra avançou uma célula: libera a próxima curva
+   *
+   * @param observed - Direção do último passo, usada enquanto nenhuma
+   *   curva foi liberada (início da partida)
+   */
+  step(observed: Direction | null): void {
+    this.released = false;
+    if (!this.heading && observed) this.heading = observed;
+  }
+}
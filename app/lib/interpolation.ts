@@ -0,0 +1,132 @@
+/**
+ * Interpolação de snapshots - Suaviza a renderização entre ticks do servidor
+ *
+ * Responsabilidades:
+ * - Interpolar segmentos de cobra entre dois snapshots consecutivos
+ * - Prever a próxima posição da cobra local a partir da última direção enviada
+ * - Estimar o intervalo entre ticks do servidor
+ *
+ * Padrão: Funções puras
+ * - Sem acesso ao DOM nem ao React
+ * - Usadas pelo loop de requestAnimationFrame do GameCanvas
+ */
+
+import type { Direction, GameState, Point, Snake } from './protocol';
+
+/** Intervalo assumido antes de medir o primeiro tick (servidor a 10 Hz) */
+export const DEFAULT_TICK_MS = 100;
+
+const MIN_TICK_MS = 16;
+const MAX_TICK_MS = 1000;
+
+/** Peso da nova amostra na média móvel exponencial do intervalo de tick */
+const TICK_SMOOTHING = 0.2;
+
+/**
+ * Snapshot recebido do servidor com o instante local de chegada
+ */
+export interface TimedSnapshot {
+  state: GameState;
+  receivedAt: number;
+}
+
+/**
+ * Atualiza a estimativa do intervalo entre ticks
+ *
+ * @param currentMs - Estimativa atual
+ * @param elapsedMs - Tempo decorrido desde o snapshot anterior
+ * @returns Nova estimativa suavizada
+ */
+export function estimateTickInterval(currentMs: number, elapsedMs: number): number {
+  // Intervalos absurdos (aba em segundo plano, pausa) não entram na média
+  if (elapsedMs < MIN_TICK_MS || elapsedMs > MAX_TICK_MS) return currentMs;
+  return currentMs + (elapsedMs - currentMs) * TICK_SMOOTHING;
+}
+
+/**
+ * Progresso (0..1) entre o snapshot atual e o próximo tick esperado
+ */
+export function tickProgress(now: number, receivedAt: number, tickMs: number): number {
+  return Math.min(1, Math.max(0, (now - receivedAt) / tickMs));
+}
+
+/**
+ * Interpola linearmente dois corpos de cobra, segmento a segmento
+ *
+ * Segmentos que saltam mais de uma célula (respawn, teleporte) não são
+ * interpolados. Quando a cobra cresce, os segmentos novos partem da
+ * cauda anterior.
+ *
+ * @param from - Corpo no snapshot anterior
+ * @param to - Corpo no snapshot de destino
+ * @param alpha - Progresso entre os dois (0..1)
+ */
+export function lerpBody(from: Point[], to: Point[], alpha: number): Point[] {
+  if (from.length === 0) return to;
+
+  return to.map((target, index) => {
+    const origin = from[Math.min(index, from.length - 1)];
+    const jumped = Math.abs(target.x - origin.x) > 1 || Math.abs(target.y - origin.y) > 1;
+    if (jumped) return target;
+
+    return {
+      x: origin.x + (target.x - origin.x) * alpha,
+      y: origin.y + (target.y - origin.y) * alpha,
+    };
+  });
+}
+
+/**
+ * Direção em que a cobra se moveu no último tick, se for um passo unitário
+ */
+export function observedDirection(previous: Snake | undefined, current: Snake): Direction | null {
+  const before = previous?.body[0];
+  const after = current.body[0];
+  if (!before || !after) return null;
+
+  const dx = after.x - before.x;
+  const dy = after.y - before.y;
+  if (Math.abs(dx) + Math.abs(dy) !== 1) return null;
+
+  return { dx, dy };
+}
+
+/**
+ * Prevê o corpo da cobra um tick à frente
+ *
+ * A direção enviada é ignorada se for uma reversão de 180°, que o
+ * servidor também rejeita. Não há previsão além das paredes.
+ *
+ * @param body - Corpo atual confirmado pelo servidor
+ * @param sent - Última direção enviada por sendMove
+ * @param moving - Direção observada no último tick
+ * @param width - Largura da arena em células
+ * @param height - Altura da arena em células
+ * @returns Corpo previsto, ou null se não há previsão segura
+ */
+export function predictBody(
+  body: Point[],
+  sent: Direction | null,
+  moving: Direction | null,
+  width: number,
+  height: number
+): Point[] | null {
+  const head = body[0];
+  if (!head) return null;
+
+  const isReversal = sent && moving && sent.dx === -moving.dx && sent.dy === -moving.dy;
+  const direction = sent && !isReversal ? sent : moving;
+  if (!direction) return null;
+
+  const next = { x: head.x + direction.dx, y: head.y + direction.dy };
+  if (next.x < 0 || next.y < 0 || next.x >= width || next.y >= height) return null;
+
+  return [next, ...body.slice(0, -1)];
+}
+
+/**
+ * Compara duas posições de cabeça
+ */
+export function samePoint(a: Point | undefined, b: Point | undefined): boolean {
+  return !!a && !!b && a.x === b.x && a.y === b.y;
+}
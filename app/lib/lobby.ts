@@ -0,0 +1,33 @@
+/**
+ * Lobby - Regras do ready-check
+ *
+ * Responsabilidades:
+ * - Decidir se o jogador local pode iniciar a partida
+ *
+ * Regras:
+ * - O host (hostId) inicia a qualquer momento
+ * - Os demais só iniciam com todos prontos
+ * - Servidores sem ready-check (sem hostId nem ready) deixam
+ *   qualquer jogador iniciar
+ */
+
+import type { LobbyStatus } from './protocol';
+
+/**
+ * Verifica se o jogador pode pedir o início da partida
+ *
+ * @param lobby - Último lobbyUpdate
+ * @param playerId - Jogador local
+ * @param assumeReady - Considera o jogador local pronto (setReady recém-enviado)
+ */
+export function canStartMatch(lobby: LobbyStatus | null, playerId: string | null, assumeReady = false): boolean {
+  if (!lobby) return true;
+
+  const hasReadyCheck = lobby.hostId !== undefined || lobby.players.some((player) => player.ready !== undefined);
+  if (!hasReadyCheck) return true;
+  if (playerId !== null && lobby.hostId === playerId) return true;
+  return (
+    lobby.players.length > 0 &&
+    lobby.players.every((player) => player.ready || (assumeReady && player.id === playerId))
+  );
+}
@@ -0,0 +1,273 @@
+/**
+ * Catálogo en - Inglês
+ *
+ * Mesmas chaves de pt-BR.ts; o tipo Messages exige todas.
+ */
+
+import type { Messages } from './pt-BR';
+
+export const en: Messages = {
+  // Geral
+  'common.close': 'Close',
+  'common.youTag': '(you)',
+  'common.alive': '✓ Alive',
+  'common.dead': '✗ Dead',
+  'common.backToGame': '← Back to the game',
+  'common.backToLobby': 'Back to lobby',
+  'player.anonymous': 'Player {id}',
+
+  // Conexão e páginas de jogo
+  'connection.connecting': 'Connecting to the server...',
+  'connection.backendHint': 'Make sure the backend is running on localhost:5000',
+  'connection.playOffline': '🕹️ Play Offline',
+  'connection.offline': '📴 Offline',
+  'connection.connected': '🟢 Connected',
+  'connection.reconnectingBadge': '🟡 Reconnecting...',
+  'connection.reconnecting': 'Connection lost. Reconnecting...',
+  'connection.inputPaused': 'Your moves are paused until the connection is back.',
+  'connection.attempt': 'Attempt {attempt}',
+  'connection.retry': '🔄 Retry now',
+  'connection.ping': '📶 {rtt} ms',
+  'connection.pingUnknown': '📶 — ms',
+  'connection.pingDetail': 'Round-trip latency {rtt} ms, jitter ±{jitter} ms',
+  'connection.protocolError': '⚠️ Invalid server message ignored ({event})',
+  'game.loading': 'Loading...',
+  'game.playerId': 'ID: {id}...',
+  'countdown.startsIn': 'The match starts in',
+  'personalBest.live': '🏆 New personal best! ({best} → {score})',
+
+  // Lobby
+  'lobby.subtitle': 'Multiplayer Game',
+  'lobby.playersInRoom': 'Players in Room',
+  'lobby.playersOnline': 'Players Online',
+  'lobby.alone': "You're on your own",
+  'lobby.playersCount': '{count} players online',
+  'lobby.host': 'Host',
+  'lobby.ready': '✅ Ready',
+  'lobby.waiting': '⏳ Waiting',
+  'lobby.startError': '⚠️ Could not start: {reason}',
+  'lobby.readyCancel': '✅ Ready (click to cancel)',
+  'lobby.setReady': "✋ I'm ready",
+  'lobby.starting': '⚙️ Starting...',
+  'lobby.start': '🎮 Start Game',
+  'lobby.waitingReady': '⏳ Waiting for players ({ready}/{total})',
+  'lobby.spectate': '👁 Watch match in progress',
+  'lobby.fruits': '📖 Fruits & Abilities',
+  'lobby.settings': '⚙️ Settings',
+  'lobby.replay': '🎬 Watch a replay',
+  'lobby.stats': '📊 Statistics',
+  'fruits.title': '🍎 Fruits & Abilities',
+  'fruits.effect': 'Effect:',
+  'fruits.points': '+{points} points',
+  'fruits.randomEffect': 'and one of these effects, at random:',
+  'fruits.effectLine': '{effect}: {description} ({seconds}s)',
+  'fruit.apple': 'Apple',
+  'fruit.mango': 'Mango',
+  'fruit.unknown': 'Unknown fruit ({type})',
+
+  // Perfil
+  'profile.title': '🎨 Your Profile',
+  'profile.namePlaceholder': 'Your nickname',
+  'profile.nameLabel': 'Nickname',
+  'profile.colorLabel': 'Snake colour',
+  'profile.themeColor': 'Theme colour',
+
+  // Salas
+  'rooms.current': '🚪 Room',
+  'rooms.title': '🚪 Rooms',
+  'rooms.copied': '✓ Link copied!',
+  'rooms.copy': '📋 Copy link',
+  'rooms.leave': 'Leave room',
+  'rooms.create': '➕ Create room',
+  'rooms.codePlaceholder': 'CODE',
+  'rooms.codeLabel': 'Room code',
+  'rooms.join': 'Join',
+  'rooms.open': 'Open rooms',
+  'rooms.refresh': '🔄 Refresh',
+  'rooms.refreshLabel': 'Refresh room list',
+  'rooms.empty': 'No open rooms',
+  'rooms.status.lobby': 'waiting',
+  'rooms.status.playing': 'in game',
+  'rooms.status.finished': 'finished',
+  'rooms.invalidCode': 'Invalid room code',
+
+  // Chat
+  'chat.title': '💬 Chat',
+  'chat.placeholder': 'Type a message...',
+  'chat.send': 'Send',
+  'chat.empty': 'No messages yet. Say hi!',
+  'chat.cooldown': 'Slow down! Wait {seconds}s to send again.',
+  'chat.hint': 'Enter: chat · 1-9: emotes',
+  'chat.open': 'Open chat (Enter)',
+  'chat.close': 'Close chat (Esc)',
+  'chat.emotes': 'Emotes',
+  'chat.emoteKey': '{emote} (key {key})',
+  'chat.mute': 'Mute {name}',
+  'chat.unmute': 'Unmute {name}',
+  'emote.wave': 'Hi',
+  'emote.thumbsUp': 'Thumbs up',
+  'emote.laugh': 'Laugh',
+  'emote.wow': 'Wow',
+  'emote.angry': 'Angry',
+  'emote.fire': 'Fire',
+  'emote.skull': 'Skull',
+  'emote.party': 'Party',
+  'emote.gg': 'Good game',
+
+  // Configurações
+  'settings.title': '⚙️ Settings',
+  'settings.language': '🌐 Language',
+  'settings.languageAuto': 'Automatic ({language})',
+  'settings.theme': '🎨 Theme',
+  'settings.audio': '🔊 Sound',
+  'settings.mute': 'Mute all sound',
+  'settings.masterVolume': 'Master volume',
+  'settings.sfxVolume': 'Sound effects',
+  'settings.musicVolume': 'Music',
+  'settings.audioHint': 'Music plays during matches. Sound only starts after your first click or key press (a browser requirement).',
+  'settings.keys': '⌨️ Keys',
+  'settings.restoreDefaults': 'Restore defaults',
+  'settings.removeKey': 'Remove key',
+  'settings.pressKey': 'Press a key (Esc cancels)',
+  'settings.addKey': '+ Key',
+  'settings.keyHint': 'A key can only have one action: binding it to another action removes it from the previous one.',
+  'settings.gamepad': '🎮 Gamepad',
+  'settings.gamepadEnabled': 'Use gamepad (d-pad and left stick)',
+  'settings.deadZone': 'Stick dead zone',
+  'settings.gamepadConnected': 'Connected: {names}',
+  'settings.gamepadNone': 'No gamepad detected (press a button)',
+  'settings.dpad': '📱 On-screen D-pad',
+  'settings.dpad.auto': 'Automatic (touch screens)',
+  'settings.dpad.on': 'Always',
+  'settings.dpad.off': 'Never',
+  'settings.performance': '⏱️ Performance',
+  'settings.showFrameTime': 'Show frame time over the game',
+  'action.up': '↑ Up',
+  'action.down': '↓ Down',
+  'action.left': '← Left',
+  'action.right': '→ Right',
+  'key.space': 'Space',
+  'theme.dark': '🌙 Dark',
+  'theme.light': '☀️ Light',
+  'theme.colorblind': '👁️ Colour-blind (deuteranopia/protanopia)',
+  'theme.highContrast': '◐ High contrast',
+
+  // D-pad
+  'dpad.mode': '🎮 D-pad: {mode}',
+  'dpad.mode.auto': 'auto',
+  'dpad.mode.on': 'on',
+  'dpad.mode.off': 'off',
+  'dpad.move.up': 'Move up',
+  'dpad.move.down': 'Move down',
+  'dpad.move.left': 'Move left',
+  'dpad.move.right': 'Move right',
+
+  // Efeitos
+  'effect.active': 'Active effects',
+  'effect.speedBoost': 'Speed +50%',
+  'effect.slowDown': 'Speed -50%',
+  'effect.unknown': 'Unknown effect ({type})',
+  'effect.speedBoost.description': '+50% speed',
+  'effect.slowDown.description': '-50% speed',
+  'effect.unknown.description': 'New effect from the server',
+
+  // Canvas
+  'canvas.label': 'Game arena (match events are announced to screen readers)',
+  'canvas.zoomOut': 'Zoom out',
+  'canvas.zoomIn': 'Zoom in',
+  'canvas.follow': '🎯 Follow snake',
+  'canvas.fitArena': '🗺️ Whole arena',
+  'canvas.scoreLine': '{name} - Score: {score} - {status}',
+  'canvas.frameTime': '⏱ {average} ms (max {max}) · {fps} frames/s',
+
+  // Espectador
+  'spectator.title': '👁 Spectator',
+  'spectator.score': 'Score: {score} · {status}',
+  'spectator.effect': '{effect} ({seconds}s)',
+  'spectator.noSnakes': 'No snakes in the match',
+  'spectator.previous': 'Previous snake',
+  'spectator.next': 'Next snake',
+  'spectator.clickHint': 'Click a snake to follow it',
+
+  // Resultado
+  'results.title': '🏁 Match Over',
+  'results.duration': 'Duration: {duration}',
+  'results.winner': 'Winner',
+  'results.personalBest': '🏆 New personal best: {score} points!',
+  'results.finishedIn': 'You finished in',
+  'results.place': '{place} place',
+  'results.player': 'Player',
+  'results.score': 'Score',
+  'results.maxLength': 'Max length',
+  'results.survived': 'Survived',
+  'results.untilEnd': '🏁 To the end',
+  'results.rematch': '🔁 Rematch',
+  'results.backToLobby': '🏠 Back to lobby',
+
+  // Replay
+  'replay.recording': '⏺ Recording match',
+  'replay.download': '💾 Download replay',
+  'replay.title': '🎬 Replay',
+  'replay.open': '📂 Open replay file',
+  'replay.recordedAt': '{file} · recorded on {date}',
+  'replay.none': 'No replay loaded',
+  'replay.timeline': 'Timeline',
+  'replay.previousFrame': 'Previous frame',
+  'replay.nextFrame': 'Next frame',
+  'replay.play': '▶️ Play',
+  'replay.pause': '⏸ Pause',
+  'replay.frame': 'frame {index}/{total}',
+  'replay.speed': 'Speed',
+  'replay.error.json': 'The file is not valid JSON',
+  'replay.error.format': 'Unknown replay format',
+  'replay.error.version': 'Unsupported replay version: {version}',
+  'replay.error.noFrames': 'The replay has no frames',
+  'replay.error.frameTime': 'Frame {index} has no timestamp',
+  'replay.error.frameState': 'Frame {index} is invalid: {detail}',
+  'replay.error.frameOrder': 'Frame {index} is out of order (earlier than the previous one)',
+  'replay.error.read': 'Could not read the file: {detail}',
+
+  // Estatísticas
+  'stats.title': '📊 Statistics',
+  'stats.empty': 'No matches recorded yet. Finish a match to get started.',
+  'stats.bestScore': '🏆 Best score',
+  'stats.bestLength': '📏 Longest snake',
+  'stats.bestSurvival': '⏱ Longest survival',
+  'stats.wins': '🥇 Wins',
+  'stats.averageScore': 'Average score',
+  'stats.averagePlacement': 'Average placement',
+  'stats.averageSurvival': 'Average survival',
+  'stats.fruitsAndEffects': 'Fruits / effects',
+  'stats.scoreChart': 'Score per match',
+  'stats.survivalChart': 'Survival per match',
+  'stats.chartEmpty': 'Play more matches to see the chart',
+  'stats.recent': 'Recent matches',
+  'stats.date': 'Date',
+  'stats.score': 'Score',
+  'stats.placement': 'Placement',
+  'stats.duration': 'Duration',
+  'stats.fruits': 'Fruits',
+  'stats.effects': 'Effects',
+  'stats.clear': '🗑 Clear history',
+  'stats.clearConfirm': 'Delete the whole match history?',
+
+  // Benchmark
+  'benchmark.title': '⏱️ Benchmark',
+  'benchmark.scene': 'Arena {width}×{height} · {snakes} snakes · {fruits} fruits · tick {tick}',
+  'benchmark.pause': '⏸ Pause',
+  'benchmark.resume': '▶️ Resume',
+
+  // Anúncios para leitores de tela
+  'announce.started': 'Match started.',
+  'announce.ate': 'Fruit eaten: {fruit}. Score: {score}.',
+  'announce.effectStarted': 'Effect started: {effect}.',
+  'announce.effectRenewed': 'Effect renewed: {effect}.',
+  'announce.effectEnded': 'Effect ended: {effect}.',
+  'announce.youDied': 'You died. Final score: {score}.',
+  'announce.died': '{name} died.',
+  'announce.finished': 'Match over.',
+  'announce.results': 'Match over.',
+  'announce.youWon': 'You won!',
+  'announce.winner': 'Winner: {name}.',
+  'announce.placement': 'You finished {place} of {total}, with {score} points.',
+};
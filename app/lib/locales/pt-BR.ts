@@ -0,0 +1,277 @@
+/**
+ * Catálogo pt-BR - Idioma padrão e referência das chaves
+ *
+ * As chaves deste objeto definem MessageKey: toda chave nova entra aqui
+ * primeiro e depois em en.ts (o TypeScript acusa a que faltar).
+ * Parâmetros entre chaves ({count}) são preenchidos por t().
+ */
+
+export const ptBR = {
+  // Geral
+  'common.close': 'Fechar',
+  'common.youTag': '(você)',
+  'common.alive': '✓ Vivo',
+  'common.dead': '✗ Morto',
+  'common.backToGame': '← Voltar ao jogo',
+  'common.backToLobby': 'Voltar ao lobby',
+  'player.anonymous': 'Jogador {id}',
+
+  // Conexão e páginas de jogo
+  'connection.connecting': 'Conectando ao servidor...',
+  'connection.backendHint': 'Certifique-se de que o backend está rodando em localhost:5000',
+  'connection.playOffline': '🕹️ Jogar Offline',
+  'connection.offline': '📴 Offline',
+  'connection.connected': '🟢 Conectado',
+  'connection.reconnectingBadge': '🟡 Reconectando...',
+  'connection.reconnecting': 'Conexão perdida. Reconectando...',
+  'connection.inputPaused': 'Seus movimentos ficam pausados até a conexão voltar.',
+  'connection.attempt': 'Tentativa {attempt}',
+  'connection.retry': '🔄 Tentar agora',
+  'connection.ping': '📶 {rtt} ms',
+  'connection.pingUnknown': '📶 — ms',
+  'connection.pingDetail': 'Latência (ida e volta) {rtt} ms, variação ±{jitter} ms',
+  'connection.protocolError': '⚠️ Mensagem inválida do servidor ignorada ({event})',
+  'game.loading': 'Carregando...',
+  'game.playerId': 'ID: {id}...',
+  'countdown.startsIn': 'A partida começa em',
+  'personalBest.live': '🏆 Novo recorde pessoal! ({best} → {score})',
+
+  // Lobby
+  'lobby.subtitle': 'Multiplayer Game',
+  'lobby.playersInRoom': 'Jogadores na Sala',
+  'lobby.playersOnline': 'Jogadores Online',
+  'lobby.alone': 'Você está sozinho',
+  'lobby.playersCount': '{count} jogadores online',
+  'lobby.host': 'Host',
+  'lobby.ready': '✅ Pronto',
+  'lobby.waiting': '⏳ Aguardando',
+  'lobby.startError': '⚠️ Não foi possível iniciar: {reason}',
+  'lobby.readyCancel': '✅ Pronto (clique para cancelar)',
+  'lobby.setReady': '✋ Estou pronto',
+  'lobby.starting': '⚙️ Iniciando...',
+  'lobby.start': '🎮 Iniciar Jogo',
+  'lobby.waitingReady': '⏳ Aguardando prontos ({ready}/{total})',
+  'lobby.spectate': '👁 Assistir partida em andamento',
+  'lobby.fruits': '📖 Frutas & Habilidades',
+  'lobby.settings': '⚙️ Configurações',
+  'lobby.replay': '🎬 Assistir um replay',
+  'lobby.stats': '📊 Estatísticas',
+  'fruits.title': '🍎 Frutas & Habilidades',
+  'fruits.effect': 'Efeito:',
+  'fruits.points': '+{points} pontos',
+  'fruits.randomEffect': 'e um destes efeitos, sorteado:',
+  'fruits.effectLine': '{effect}: {description} ({seconds}s)',
+  'fruit.apple': 'Maçã',
+  'fruit.mango': 'Manga',
+  'fruit.unknown': 'Fruta desconhecida ({type})',
+
+  // Perfil
+  'profile.title': '🎨 Seu Perfil',
+  'profile.namePlaceholder': 'Seu apelido',
+  'profile.nameLabel': 'Apelido',
+  'profile.colorLabel': 'Cor da cobra',
+  'profile.themeColor': 'Cor do tema',
+
+  // Salas
+  'rooms.current': '🚪 Sala',
+  'rooms.title': '🚪 Salas',
+  'rooms.copied': '✓ Link copiado!',
+  'rooms.copy': '📋 Copiar link',
+  'rooms.leave': 'Sair da sala',
+  'rooms.create': '➕ Criar sala',
+  'rooms.codePlaceholder': 'CÓDIGO',
+  'rooms.codeLabel': 'Código da sala',
+  'rooms.join': 'Entrar',
+  'rooms.open': 'Salas abertas',
+  'rooms.refresh': '🔄 Atualizar',
+  'rooms.refreshLabel': 'Atualizar lista de salas',
+  'rooms.empty': 'Nenhuma sala aberta',
+  'rooms.status.lobby': 'aguardando',
+  'rooms.status.playing': 'em jogo',
+  'rooms.status.finished': 'encerrada',
+  'rooms.invalidCode': 'Código de sala inválido',
+
+  // Chat
+  'chat.title': '💬 Chat',
+  'chat.placeholder': 'Digite uma mensagem...',
+  'chat.send': 'Enviar',
+  'chat.empty': 'Nenhuma mensagem ainda. Diga oi!',
+  'chat.cooldown': 'Devagar! Aguarde {seconds}s para enviar de novo.',
+  'chat.hint': 'Enter: chat · 1-9: emotes',
+  'chat.open': 'Abrir o chat (Enter)',
+  'chat.close': 'Fechar o chat (Esc)',
+  'chat.emotes': 'Emotes',
+  'chat.emoteKey': '{emote} (tecla {key})',
+  'chat.mute': 'Silenciar {name}',
+  'chat.unmute': 'Voltar a ouvir {name}',
+  'emote.wave': 'Oi',
+  'emote.thumbsUp': 'Joinha',
+  'emote.laugh': 'Risada',
+  'emote.wow': 'Uau',
+  'emote.angry': 'Bravo',
+  'emote.fire': 'Fogo',
+  'emote.skull': 'Caveira',
+  'emote.party': 'Festa',
+  'emote.gg': 'Bom jogo',
+
+  // Configurações
+  'settings.title': '⚙️ Configurações',
+  'settings.language': '🌐 Idioma',
+  'settings.languageAuto': 'Automático ({language})',
+  'settings.theme': '🎨 Tema',
+  'settings.audio': '🔊 Som',
+  'settings.mute': 'Silenciar todo o som',
+  'settings.masterVolume': 'Volume geral',
+  'settings.sfxVolume': 'Efeitos sonoros',
+  'settings.musicVolume': 'Música',
+  'settings.audioHint': 'A música toca durante a partida. O som só começa depois do primeiro clique ou tecla (exigência do navegador).',
+  'settings.keys': '⌨️ Teclas',
+  'settings.restoreDefaults': 'Restaurar padrão',
+  'settings.removeKey': 'Remover tecla',
+  'settings.pressKey': 'Pressione uma tecla (Esc cancela)',
+  'settings.addKey': '+ Tecla',
+  'settings.keyHint': 'Uma tecla só pode ter uma ação: ligá-la a outra ação a remove da anterior.',
+  'settings.gamepad': '🎮 Gamepad',
+  'settings.gamepadEnabled': 'Usar gamepad (direcional e analógico esquerdo)',
+  'settings.deadZone': 'Zona morta do analógico',
+  'settings.gamepadConnected': 'Conectado: {names}',
+  'settings.gamepadNone': 'Nenhum gamepad detectado (aperte um botão)',
+  'settings.dpad': '📱 D-pad na tela',
+  'settings.dpad.auto': 'Automático (telas de toque)',
+  'settings.dpad.on': 'Sempre',
+  'settings.dpad.off': 'Nunca',
+  'settings.performance': '⏱️ Desempenho',
+  'settings.showFrameTime': 'Mostrar tempo de quadro sobre o jogo',
+  'action.up': '↑ Cima',
+  'action.down': '↓ Baixo',
+  'action.left': '← Esquerda',
+  'action.right': '→ Direita',
+  'key.space': 'Espaço',
+  'theme.dark': '🌙 Escuro',
+  'theme.light': '☀️ Claro',
+  'theme.colorblind': '👁️ Daltonismo (deuteranopia/protanopia)',
+  'theme.highContrast': '◐ Alto contraste',
+
+  // D-pad
+  'dpad.mode': '🎮 D-pad: {mode}',
+  'dpad.mode.auto': 'auto',
+  'dpad.mode.on': 'ligado',
+  'dpad.mode.off': 'desligado',
+  'dpad.move.up': 'Mover para cima',
+  'dpad.move.down': 'Mover para baixo',
+  'dpad.move.left': 'Mover para a esquerda',
+  'dpad.move.right': 'Mover para a direita',
+
+  // Efeitos
+  'effect.active': 'Efeitos ativos',
+  'effect.speedBoost': 'Velocidade +50%',
+  'effect.slowDown': 'Velocidade -50%',
+  'effect.unknown': 'Efeito desconhecido ({type})',
+  'effect.speedBoost.description': '+50% velocidade',
+  'effect.slowDown.description': '-50% velocidade',
+  'effect.unknown.description': 'Efeito novo do servidor',
+
+  // Canvas
+  'canvas.label': 'Arena do jogo (os eventos da partida são anunciados pelo leitor de tela)',
+  'canvas.zoomOut': 'Afastar',
+  'canvas.zoomIn': 'Aproximar',
+  'canvas.follow': '🎯 Seguir cobra',
+  'canvas.fitArena': '🗺️ Arena inteira',
+  'canvas.scoreLine': '{name} - Score: {score} - {status}',
+  'canvas.frameTime': '⏱ {average} ms (máx {max}) · {fps} quadros/s',
+
+  // Espectador
+  'spectator.title': '👁 Espectador',
+  'spectator.score': 'Score: {score} · {status}',
+  'spectator.effect': '{effect} ({seconds}s)',
+  'spectator.noSnakes': 'Nenhuma cobra na partida',
+  'spectator.previous': 'Cobra anterior',
+  'spectator.next': 'Próxima cobra',
+  'spectator.clickHint': 'Clique numa cobra para segui-la',
+
+  // Resultado
+  'results.title': '🏁 Fim de Partida',
+  'results.duration': 'Duração: {duration}',
+  'results.winner': 'Vencedor',
+  'results.personalBest': '🏆 Novo recorde pessoal: {score} pontos!',
+  'results.finishedIn': 'Você terminou em',
+  'results.place': '{place} lugar',
+  'results.player': 'Jogador',
+  'results.score': 'Score',
+  'results.maxLength': 'Tamanho máx.',
+  'results.survived': 'Sobreviveu',
+  'results.untilEnd': '🏁 Até o fim',
+  'results.rematch': '🔁 Revanche',
+  'results.backToLobby': '🏠 Voltar ao lobby',
+
+  // Replay
+  'replay.recording': '⏺ Gravando partida',
+  'replay.download': '💾 Baixar replay',
+  'replay.title': '🎬 Replay',
+  'replay.open': '📂 Abrir arquivo de replay',
+  'replay.recordedAt': '{file} · gravado em {date}',
+  'replay.none': 'Nenhum replay carregado',
+  'replay.timeline': 'Linha do tempo',
+  'replay.previousFrame': 'Frame anterior',
+  'replay.nextFrame': 'Próximo frame',
+  'replay.play': '▶️ Reproduzir',
+  'replay.pause': '⏸ Pausar',
+  'replay.frame': 'frame {index}/{total}',
+  'replay.speed': 'Velocidade',
+  'replay.error.json': 'O arquivo não é um JSON válido',
+  'replay.error.format': 'Formato de replay desconhecido',
+  'replay.error.version': 'Versão de replay não suportada: {version}',
+  'replay.error.noFrames': 'O replay não tem frames',
+  'replay.error.frameTime': 'Frame {index} sem timestamp',
+  'replay.error.frameState': 'Frame {index} inválido: {detail}',
+  'replay.error.frameOrder': 'Frame {index} fora de ordem (tempo menor que o do anterior)',
+  'replay.error.read': 'Não foi possível ler o arquivo: {detail}',
+
+  // Estatísticas
+  'stats.title': '📊 Estatísticas',
+  'stats.empty': 'Nenhuma partida registrada ainda. Termine uma partida para começar.',
+  'stats.bestScore': '🏆 Melhor score',
+  'stats.bestLength': '📏 Maior tamanho',
+  'stats.bestSurvival': '⏱ Maior sobrevivência',
+  'stats.wins': '🥇 Vitórias',
+  'stats.averageScore': 'Score médio',
+  'stats.averagePlacement': 'Posição média',
+  'stats.averageSurvival': 'Sobrevivência média',
+  'stats.fruitsAndEffects': 'Frutas / efeitos',
+  'stats.scoreChart': 'Score por partida',
+  'stats.survivalChart': 'Sobrevivência por partida',
+  'stats.chartEmpty': 'Jogue mais partidas para ver o gráfico',
+  'stats.recent': 'Partidas recentes',
+  'stats.date': 'Data',
+  'stats.score': 'Score',
+  'stats.placement': 'Posição',
+  'stats.duration': 'Duração',
+  'stats.fruits': 'Frutas',
+  'stats.effects': 'Efeitos',
+  'stats.clear': '🗑 Apagar histórico',
+  'stats.clearConfirm': 'Apagar todo o histórico de partidas?',
+
+  // Benchmark
+  'benchmark.title': '⏱️ Benchmark',
+  'benchmark.scene': 'Arena {width}×{height} · {snakes} cobras · {fruits} frutas · tick {tick}',
+  'benchmark.pause': '⏸ Pausar',
+  'benchmark.resume': '▶️ Continuar',
+
+  // Anúncios para leitores de tela
+  'announce.started': 'Partida iniciada.',
+  'announce.ate': 'Fruta comida: {fruit}. Pontuação: {score}.',
+  'announce.effectStarted': 'Efeito ativado: {effect}.',
+  'announce.effectRenewed': 'Efeito renovado: {effect}.',
+  'announce.effectEnded': 'Efeito terminou: {effect}.',
+  'announce.youDied': 'Você morreu. Pontuação final: {score}.',
+  'announce.died': '{name} morreu.',
+  'announce.finished': 'Partida encerrada.',
+  'announce.results': 'Fim de partida.',
+  'announce.youWon': 'Você venceu!',
+  'announce.winner': 'Vencedor: {name}.',
+  'announce.placement': 'Você ficou em {place} lugar de {total}, com {score} pontos.',
+};
+
+export type MessageKey = keyof typeof ptBR;
+
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,69 @@
+/**
+ * Perfil do jogador - Apelido e cor da cobra
+ *
+ * Responsabilidades:
+ * - Definir a paleta de cores disponível
+ * - Persistir o perfil localmente
+ * - Gerar nomes de exibição para cobras e jogadores sem apelido
+ */
+
+import type { Translator } from './i18n';
+import { createStoredValue } from './storage';
+
+export interface PlayerProfile {
+  name: string;
+  /** Sem cor escolhida, o canvas usa as cores do tema (própria/outras) */
+  color?: string;
+}
+
+export const MAX_NAME_LENGTH = 16;
+
+/** Cores oferecidas no seletor */
+export const SNAKE_COLORS = [
+  '#4CAF50',
+  '#2196F3',
+  '#FF9800',
+  '#E91E63',
+  '#9C27B0',
+  '#00BCD4',
+  '#FFEB3B',
+  '#F44336',
+];
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+export const DEFAULT_PROFILE: PlayerProfile = {
+  name: '',
+};
+
+/**
+ * Limpa o apelido (espaços, tamanho)
+ */
+export function normalizeName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH);
+}
+
+/**
+ * Aceita só cores no formato #rrggbb
+ */
+export function isHexColor(color: unknown): color is string {
+  return typeof color === 'string' && HEX_COLOR.test(color);
+}
+
+/**
+ * Converte o valor salvo em perfil válido
+ */
+function parseProfile(raw: unknown): PlayerProfile {
+  const data = (raw ?? {}) as Partial<PlayerProfile>;
+  const name = typeof data.name === 'string' ? normalizeName(data.name) : '';
+  return isHexColor(data.color) ? { name, color: data.color } : { name };
+}
+
+export const profileStore = createStoredValue<PlayerProfile>('snake:profile', DEFAULT_PROFILE, parseProfile);
+
+/**
+ * Nome de exibição: o apelido, ou "Jogador" (no idioma atual) + início do ID
+ */
+export function displayName(player: { id: string; name?: string }, t: Translator): string {
+  return player.name || t('player.anonymous', { id: player.id.slice(0, 4) });
+}
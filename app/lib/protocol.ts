@@ -0,0 +1,257 @@
+/**
+ * Protocolo - Contrato único entre cliente e servidor
+ *
+ * Responsabilidades:
+ * - Definir os tipos do estado do jogo e do lobby
+ * - Definir o nome e o payload de cada evento Socket.IO
+ * - Servir de fonte única de tipos para hooks e componentes
+ *
+ * Padrão: Typed Events (Socket.IO)
+ * - ServerToClientEvents: eventos recebidos do servidor
+ * - ClientToServerEvents: eventos enviados ao servidor
+ * - GameSocket: socket tipado com os dois mapas
+ *
+ * Payloads recebidos são validados em tempo de execução por validation.ts
+ * antes de chegar ao estado do React.
+ */
+
+import type { Socket } from 'socket.io-client';
+import type { PlayerProfile } from './profile';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Direction {
+  dx: number;
+  dy: number;
+}
+
+/** Efeitos que o cliente conhece (ver catalog.ts) */
+export type EffectType = 'speedBoost' | 'slowDown';
+
+export interface ActiveEffect {
+  /** Um EffectType ou um tipo novo do servidor (exibido com fallback) */
+  type: string;
+  endTime: number;
+}
+
+/** Frutas que o cliente conhece (ver catalog.ts) */
+export type FruitType = 'apple' | 'mango';
+
+export interface Fruit {
+  x: number;
+  y: number;
+  /** Um FruitType ou um tipo novo do servidor (exibido com fallback) */
+  type: string;
+}
+
+export interface Snake {
+  id: string;
+  body: Point[];
+  alive: boolean;
+  score: number;
+  activeEffects: ActiveEffect[];
+  /** Apelido escolhido pelo dono da cobra */
+  name?: string;
+  /** Cor escolhida pelo dono (#rrggbb) */
+  color?: string;
+}
+
+export type GameStatus = 'lobby' | 'playing' | 'finished';
+
+export interface GameState {
+  status: GameStatus;
+  snakes: Snake[];
+  food: Fruit[];
+  gameWidth: number;
+  gameHeight: number;
+  /** Sequência do snapshot, base para os deltas seguintes */
+  seq?: number;
+  /** Sala a que o estado pertence (ausente em servidores sem salas) */
+  roomId?: string;
+}
+
+export interface LobbyPlayer {
+  id: string;
+  name?: string;
+  color?: string;
+  /** Marcou "pronto" no ready-check */
+  ready?: boolean;
+}
+
+export interface LobbyStatus {
+  status: string;
+  playerCount: number;
+  players: LobbyPlayer[];
+  roomId?: string;
+  /** Jogador que pode iniciar a partida sem esperar todos ficarem prontos */
+  hostId?: string;
+}
+
+/**
+ * Início de partida confirmado: contagem regressiva sincronizada
+ */
+export interface MatchStarting {
+  /** Instante (epoch ms) em que a partida começa e o input é liberado */
+  startsAt: number;
+  roomId?: string;
+}
+
+/**
+ * Dados enviados no handshake do Socket.IO (opção auth)
+ */
+export interface HandshakeAuth {
+  /** Token persistente da aba (session.ts), para retomar a sessão */
+  sessionToken: string;
+}
+
+/**
+ * Identidade confirmada pelo servidor após cada conexão
+ */
+export interface SessionInfo {
+  /** ID do jogador (e da sua cobra); não muda entre reconexões */
+  playerId: string;
+  /** true quando o servidor reconheceu o token e devolveu a sessão anterior */
+  resumed: boolean;
+}
+
+/**
+ * Resposta a um ping, usada para medir latência e sincronizar relógios
+ */
+export interface Pong {
+  /** clientTime do ping, ecoado sem alteração */
+  clientTime: number;
+  /** Relógio do servidor (epoch ms) ao responder */
+  serverTime: number;
+}
+
+/**
+ * Mensagem de chat de um jogador da sala
+ */
+export interface ChatMessage {
+  /** ID dado pelo servidor, único na sala */
+  id: string;
+  playerId: string;
+  /** Apelido no envio; sem ele, o nome vem do lobby */
+  name?: string;
+  text: string;
+  roomId?: string;
+}
+
+/**
+ * Emote rápido enviado por um jogador (ids em chat.ts)
+ */
+export interface PlayerEmote {
+  playerId: string;
+  emote: string;
+  roomId?: string;
+}
+
+/**
+ * Sala listada no lobby
+ */
+export interface RoomInfo {
+  id: string;
+  playerCount: number;
+  status: GameStatus;
+}
+
+/**
+ * Mudanças em uma cobra existente
+ *
+ * A ordem de aplicação é: remover da cabeça, adicionar na cabeça,
+ * remover da cauda, adicionar na cauda.
+ */
+export interface SnakeDelta {
+  id: string;
+  /** Segmentos novos na cabeça, do mais novo (nova cabeça) ao mais antigo */
+  headAdded?: Point[];
+  /** Quantidade de segmentos removidos da cabeça */
+  headRemoved?: number;
+  /** Segmentos novos na cauda, na ordem do corpo */
+  tailAdded?: Point[];
+  /** Quantidade de segmentos removidos da cauda */
+  tailRemoved?: number;
+  score?: number;
+  alive?: boolean;
+  activeEffects?: ActiveEffect[];
+}
+
+/**
+ * Payload do evento gameStateDelta
+ */
+export interface GameStateDelta {
+  /** Número de sequência; deve ser exatamente o anterior + 1 */
+  seq: number;
+  status?: GameStatus;
+  snakes?: SnakeDelta[];
+  snakesAdded?: Snake[];
+  snakesRemoved?: string[];
+  fruitSpawned?: Fruit[];
+  /** Posições das frutas que sumiram (comidas ou expiradas) */
+  fruitDespawned?: Point[];
+  roomId?: string;
+}
+
+/**
+ * Eventos enviados pelo servidor
+ */
+export interface ServerToClientEvents {
+  gameState: (state: unknown) => void;
+  gameStateDelta: (delta: unknown) => void;
+  lobbyUpdate: (status: unknown) => void;
+  roomJoined: (payload: unknown) => void;
+  roomList: (rooms: unknown) => void;
+  roomError: (payload: unknown) => void;
+  matchStarting: (payload: unknown) => void;
+  startFailed: (payload: unknown) => void;
+  pong: (payload: unknown) => void;
+  session: (payload: unknown) => void;
+  chatMessage: (payload: unknown) => void;
+  emote: (payload: unknown) => void;
+}
+
+/**
+ * Eventos enviados pelo cliente
+ */
+export interface ClientToServerEvents {
+  move: (payload: { direction: Direction; roomId?: string }) => void;
+  startGame: (payload: { roomId?: string }) => void;
+  requestSnapshot: (payload: { roomId?: string }) => void;
+  createRoom: (payload: { profile: PlayerProfile }) => void;
+  joinRoom: (payload: { roomId: string; profile: PlayerProfile }) => void;
+  leaveRoom: (payload: { roomId: string }) => void;
+  listRooms: () => void;
+  setProfile: (profile: PlayerProfile) => void;
+  setReady: (payload: { ready: boolean; roomId?: string }) => void;
+  /** Pede um pong; clientTime é o relógio do navegador no envio */
+  ping: (payload: { clientTime: number }) => void;
+  /** Mensagem para a sala; o servidor a devolve a todos (inclusive a quem enviou) */
+  chatMessage: (payload: { text: string; roomId?: string }) => void;
+  emote: (payload: { emote: string; roomId?: string }) => void;
+}
+
+/**
+ * Payload já validado de cada evento do servidor
+ */
+export interface ServerPayloads {
+  gameState: GameState;
+  gameStateDelta: GameStateDelta;
+  lobbyUpdate: LobbyStatus;
+  roomJoined: { roomId: string };
+  roomList: RoomInfo[];
+  roomError: { message: string };
+  matchStarting: MatchStarting;
+  startFailed: { reason: string; roomId?: string };
+  pong: Pong;
+  session: SessionInfo;
+  chatMessage: ChatMessage;
+  emote: PlayerEmote;
+}
+
+export type ServerEvent = keyof ServerToClientEvents;
+export type ClientEvent = keyof ClientToServerEvents;
+
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
@@ -0,0 +1,230 @@
+/**
+ * Replay - Gravação e leitura de partidas
+ *
+ * Responsabilidades:
+ * - Capturar a sequência de GameState de uma partida com timestamps
+ * - Exportar a gravação como arquivo JSON para download
+ * - Ler e validar um arquivo de replay
+ *
+ * Padrão: External Store
+ * - MatchRecorder vive fora do React
+ * - Componentes leem o estado com useSyncExternalStore (subscribe/getSnapshot)
+ *
+ * Formato do arquivo (versão 1):
+ * { version, recordedAt, playerId, frames: [{ t, state }] }
+ * - t: milissegundos desde o primeiro frame
+ */
+
+import { DEFAULT_LOCALE, MessageKey, MessageParams, getI18n } from './i18n';
+import type { GameState } from './protocol';
+import { ProtocolError, parseGameState } from './validation';
+
+export const REPLAY_VERSION = 1;
+
+/** Limite de frames por gravação (~30 min a 10 Hz) */
+const MAX_FRAMES = 18000;
+
+export interface ReplayFrame {
+  /** Milissegundos desde o início da gravação */
+  t: number;
+  state: GameState;
+}
+
+export interface MatchRecording {
+  version: number;
+  /** Data de início em ISO 8601 */
+  recordedAt: string;
+  /** Jogador que gravou, destacado na reprodução */
+  playerId: string | null;
+  frames: ReplayFrame[];
+}
+
+export interface RecorderSnapshot {
+  isRecording: boolean;
+  /** Última partida concluída */
+  recording: MatchRecording | null;
+}
+
+/**
+ * Erro ao ler um arquivo de replay
+ * key/params permitem mostrar o motivo no idioma do jogador; message
+ * fica em pt-BR para logs
+ */
+export class ReplayFormatError extends Error {
+  constructor(
+    readonly key: MessageKey,
+    readonly params: MessageParams = {}
+  ) {
+    super(getI18n(DEFAULT_LOCALE).t(key, params));
+    this.name = 'ReplayFormatError';
+  }
+}
+
+/**
+ * Grava os estados de uma partida
+ *
+ * A gravação começa no primeiro estado 'playing' e termina quando o
+ * status deixa de ser 'playing'. Um estado de outra sala ou de outro
+ * jogador (troca entre offline e online) encerra a gravação aberta antes
+ * de ser registrado: um replay nunca mistura duas partidas.
+ */
+export class MatchRecorder {
+  private frames: ReplayFrame[] = [];
+  private startedAt = 0;
+  private recordedAt = '';
+  private playerId: string | null = null;
+  private roomId: string | undefined = undefined;
+  private snapshot: RecorderSnapshot = { isRecording: false, recording: null };
+  private listeners = new Set<() => void>();
+
+  /**
+   * Registra um novo estado recebido
+   *
+   * @param state - Estado do jogo
+   * @param playerId - Jogador local
+   * @param now - Instante de chegada (Date.now())
+   */
+  record(state: GameState, playerId: string | null, now: number = Date.now()): void {
+    const playing = state.status === 'playing';
+
+    if (this.snapshot.isRecording && (state.roomId !== this.roomId || playerId !== this.playerId)) {
+      this.finish();
+    }
+
+    if (!this.snapshot.isRecording) {
+      if (!playing) return;
+      this.frames = [];
+      this.startedAt = now;
+      this.recordedAt = new Date(now).toISOString();
+      this.playerId = playerId;
+      this.roomId = state.roomId;
+      this.setSnapshot({ isRecording: true, recording: this.snapshot.recording });
+    }
+
+    if (this.frames.length < MAX_FRAMES) {
+      this.frames.push({ t: now - this.startedAt, state });
+    }
+
+    if (!playing) this.finish();
+  }
+
+  /**
+   * Encerra a gravação atual, se houver
+   */
+  finish(): void {
+    if (!this.snapshot.isRecording) return;
+
+    this.setSnapshot({
+      isRecording: false,
+      recording: {
+        version: REPLAY_VERSION,
+        recordedAt: this.recordedAt,
+        playerId: this.playerId,
+        frames: this.frames,
+      },
+    });
+    this.frames = [];
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = (): RecorderSnapshot => this.snapshot;
+
+  private setSnapshot(snapshot: RecorderSnapshot): void {
+    this.snapshot = snapshot;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Nome de arquivo sugerido para uma gravação
+ */
+export function replayFileName(recording: MatchRecording): string {
+  const stamp = recording.recordedAt.slice(0, 16).replace(/[T:]/g, '-');
+  return `snake-replay-${stamp}.json`;
+}
+
+/**
+ * Dispara o download da gravação no navegador
+ */
+export function downloadRecording(recording: MatchRecording): void {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = replayFileName(recording);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Lê e valida o conteúdo de um arquivo de replay
+ *
+ * @param text - Conteúdo do arquivo
+ * @throws ReplayFormatError se o arquivo não for um replay válido
+ */
+export function parseRecording(text: string): MatchRecording {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ReplayFormatError('replay.error.json');
+  }
+
+  if (typeof raw !== 'object' || raw === null) {
+    throw new ReplayFormatError('replay.error.format');
+  }
+
+  const data = raw as Record<string, unknown>;
+  if (data.version !== REPLAY_VERSION) {
+    throw new ReplayFormatError('replay.error.version', { version: String(data.version) });
+  }
+  if (!Array.isArray(data.frames) || data.frames.length === 0) {
+    throw new ReplayFormatError('replay.error.noFrames');
+  }
+
+  // frameIndexAt e o seletor de tempo dependem dos frames em ordem de t
+  let previousT = -Infinity;
+  const frames = data.frames.map((frame: unknown, index: number): ReplayFrame => {
+    const entry = frame as { t?: unknown; state?: unknown } | null;
+    if (typeof entry?.t !== 'number') {
+      throw new ReplayFormatError('replay.error.frameTime', { index });
+    }
+    if (entry.t < previousT) {
+      throw new ReplayFormatError('replay.error.frameOrder', { index });
+    }
+    previousT = entry.t;
+    try {
+      return { t: entry.t, state: parseGameState(entry.state) };
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        throw new ReplayFormatError('replay.error.frameState', { index, detail: error.message });
+      }
+      throw error;
+    }
+  });
+
+  return {
+    version: REPLAY_VERSION,
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : new Date(0).toISOString(),
+    playerId: typeof data.playerId === 'string' ? data.playerId : null,
+    frames,
+  };
+}
+
+/**
+ * Índice do último frame com t <= time (busca binária)
+ */
+export function frameIndexAt(frames: ReplayFrame[], time: number): number {
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (frames[middle].t <= time) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
@@ -0,0 +1,183 @@
+/**
+ * Resultados - Resumo de uma partida encerrada
+ *
+ * Responsabilidades:
+ * - Calcular ranking, pontuação, tamanho máximo, frutas comidas por tipo,
+ *   efeitos coletados e tempo de sobrevivência de cada cobra
+ * - Definir o vencedor
+ *
+ * Padrão: Funções puras sobre a gravação
+ * - O GameState não traz estatísticas acumuladas; elas são derivadas
+ *   comparando os frames consecutivos gravados pelo MatchRecorder
+ *
+ * Ranking:
+ * 1. Quem sobreviveu até o fim
+ * 2. Maior tempo de sobrevivência
+ * 3. Maior pontuação
+ * O primeiro do ranking é o vencedor.
+ *
+ * Frutas e efeitos são contados por tipo conhecido (catalog.ts); tipos
+ * novos do servidor não entram nas contagens.
+ */
+
+import { EFFECT_TYPES, FRUIT_TYPES, countsByType, isEffectType, isFruitType } from './catalog';
+import type { ActiveEffect, EffectType, FruitType, GameState, Point } from './protocol';
+import type { MatchRecording } from './replay';
+
+export interface PlayerResult {
+  id: string;
+  name?: string;
+  color?: string;
+  /** Posição final, a partir de 1 */
+  placement: number;
+  score: number;
+  maxLength: number;
+  fruitsEaten: Record<FruitType, number>;
+  effectsPicked: Record<EffectType, number>;
+  /** Milissegundos desde o início até morrer (ou até o fim) */
+  survivalMs: number;
+  /** Estava vivo no último frame */
+  survived: boolean;
+}
+
+export interface MatchResults {
+  /** Jogadores ordenados pelo ranking */
+  ranking: PlayerResult[];
+  winnerId: string | null;
+  durationMs: number;
+}
+
+/**
+ * Acumulador por cobra enquanto os frames são percorridos
+ */
+interface Tally {
+  result: PlayerResult;
+  joinedAt: number;
+  lastSeenAt: number;
+  diedAt: number | null;
+}
+
+const pointKey = (point: Point) => `${point.x},${point.y}`;
+
+/**
+ * Frutas que sumiram entre dois estados com uma cabeça de cobra em cima
+ * (também usada pelos anúncios para leitores de tela)
+ *
+ * @returns Pares [id da cobra, tipo da fruta]
+ */
+export function eatenFruits(previous: GameState, current: GameState): [string, string][] {
+  const remaining = new Set(current.food.map(pointKey));
+  const heads = new Map<string, string>();
+  current.snakes.forEach((snake) => {
+    if (snake.body[0]) heads.set(pointKey(snake.body[0]), snake.id);
+  });
+
+  const eaten: [string, string][] = [];
+  previous.food.forEach((fruit) => {
+    const key = pointKey(fruit);
+    const eater = heads.get(key);
+    if (!remaining.has(key) && eater) eaten.push([eater, fruit.type]);
+  });
+  return eaten;
+}
+
+/**
+ * Efeitos que surgiram ou foram renovados (endTime maior) entre dois frames
+ */
+export function pickedEffects(previous: ActiveEffect[], current: ActiveEffect[]): string[] {
+  return current
+    .filter((effect) => {
+      const before = previous.find((old) => old.type === effect.type);
+      return !before || effect.endTime > before.endTime;
+    })
+    .map((effect) => effect.type);
+}
+
+/**
+ * Resume uma partida gravada
+ *
+ * @param recording - Gravação da partida (MatchRecorder)
+ * @returns Ranking e vencedor
+ */
+export function summarizeMatch(recording: MatchRecording): MatchResults {
+  const tallies = new Map<string, Tally>();
+  const { frames } = recording;
+  const durationMs = frames.length > 0 ? frames[frames.length - 1].t : 0;
+
+  frames.forEach((frame, index) => {
+    const previous = index > 0 ? frames[index - 1].state : null;
+
+    frame.state.snakes.forEach((snake) => {
+      let tally = tallies.get(snake.id);
+      if (!tally) {
+        tally = {
+          result: {
+            id: snake.id,
+            placement: 0,
+            score: 0,
+            maxLength: 0,
+            fruitsEaten: countsByType(FRUIT_TYPES),
+            effectsPicked: countsByType(EFFECT_TYPES),
+            survivalMs: 0,
+            survived: false,
+          },
+          joinedAt: frame.t,
+          lastSeenAt: frame.t,
+          diedAt: null,
+        };
+        tallies.set(snake.id, tally);
+      }
+
+      const { result } = tally;
+      tally.lastSeenAt = frame.t;
+      result.name = snake.name ?? result.name;
+      result.color = snake.color ?? result.color;
+      result.score = snake.score;
+      result.maxLength = Math.max(result.maxLength, snake.body.length);
+      if (!snake.alive && tally.diedAt === null) tally.diedAt = frame.t;
+
+      const before = previous?.snakes.find((old) => old.id === snake.id)?.activeEffects ?? [];
+      pickedEffects(before, snake.activeEffects).forEach((type) => {
+        if (isEffectType(type)) result.effectsPicked[type] += 1;
+      });
+    });
+
+    if (previous) {
+      eatenFruits(previous, frame.state).forEach(([id, type]) => {
+        const tally = tallies.get(id);
+        if (tally && isFruitType(type)) tally.result.fruitsEaten[type] += 1;
+      });
+    }
+  });
+
+  // Cobras que sumiram do estado antes do fim contam como mortas ali
+  const finalSnakes = new Set(frames[frames.length - 1]?.state.snakes.map((snake) => snake.id));
+
+  const ranking = [...tallies.values()]
+    .map(({ result, joinedAt, lastSeenAt, diedAt }) => ({
+      ...result,
+      survivalMs: (diedAt ?? lastSeenAt) - joinedAt,
+      survived: diedAt === null && finalSnakes.has(result.id),
+    }))
+    .sort(
+      (a, b) =>
+        Number(b.survived) - Number(a.survived) || b.survivalMs - a.survivalMs || b.score - a.score
+    )
+    .map((result, index) => ({ ...result, placement: index + 1 }));
+
+  return {
+    ranking,
+    winnerId: ranking[0]?.id ?? null,
+    durationMs,
+  };
+}
+
+/**
+ * Formata milissegundos como m:ss
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
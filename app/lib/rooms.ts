@@ -0,0 +1,35 @@
+/**
+ * Salas - Utilitários de código e link de sala
+ *
+ * Responsabilidades:
+ * - Normalizar códigos digitados pelo jogador
+ * - Montar o link compartilhável de uma sala
+ *
+ * Formato do link: /game?room=ABCD
+ */
+
+/** Parâmetro de URL que identifica a sala */
+export const ROOM_PARAM = 'room';
+
+/** Tamanho máximo aceito para um código de sala */
+const MAX_CODE_LENGTH = 12;
+
+/**
+ * Normaliza um código de sala (maiúsculas, só letras e números)
+ *
+ * @returns Código normalizado, ou null se ficar vazio
+ */
+export function normalizeRoomCode(code: string): string | null {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, MAX_CODE_LENGTH);
+  return normalized || null;
+}
+
+/**
+ * Link absoluto que leva direto à sala
+ *
+ * @param roomId - Código da sala
+ * @param origin - Origem do site (window.location.origin)
+ */
+export function roomLink(roomId: string, origin: string): string {
+  return `${origin}/game?${ROOM_PARAM}=${encodeURIComponent(roomId)}`;
+}
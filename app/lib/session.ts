@@ -0,0 +1,44 @@
+/**
+ * Sessão - Token que identifica o jogador entre reconexões
+ *
+ * Responsabilidades:
+ * - Gerar um token aleatório por aba e guardá-lo em sessionStorage
+ * - Entregá-lo ao useWebSocket, que o envia no handshake (auth)
+ *
+ * O servidor usa o token para devolver ao jogador a mesma cobra (e o
+ * mesmo playerId) depois de uma queda de conexão, em vez de tratá-lo
+ * como um jogador novo.
+ *
+ * sessionStorage e não localStorage: cada aba é um jogador diferente, e
+ * recarregar a página continua a mesma sessão. Sem armazenamento
+ * (navegação privada), o token dura enquanto a página estiver aberta.
+ */
+
+const STORAGE_KEY = 'snake:session';
+
+let memoryToken: string | null = null;
+
+function createToken(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Token da sessão desta aba, criado no primeiro uso
+ */
+export function getSessionToken(): string {
+  try {
+    const saved = window.sessionStorage.getItem(STORAGE_KEY);
+    if (saved) return saved;
+
+    const token = memoryToken ?? createToken();
+    window.sessionStorage.setItem(STORAGE_KEY, token);
+    memoryToken = token;
+    return token;
+  } catch {
+    memoryToken ??= createToken();
+    return memoryToken;
+  }
+}
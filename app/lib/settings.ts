@@ -0,0 +1,140 @@
+/**
+ * Configurações - Preferências do jogador salvas localmente
+ *
+ * Responsabilidades:
+ * - Definir as preferências de interface e controles (D-pad, teclas,
+ *   gamepad, câmera, tempo de quadro, tema, idioma, volumes)
+ * - Persistir as preferências em localStorage
+ *
+ * Padrão: External Store (storage.ts)
+ * - Componentes leem com useStoredValue(settingsStore)
+ * - updateSettings grava só os campos alterados
+ */
+
+import { Locale, isLocale } from './i18n';
+import { DEFAULT_KEY_BINDINGS, INPUT_ACTIONS, KeyBindings } from './input';
+import { createStoredValue } from './storage';
+import { DEFAULT_THEME, ThemeId, isThemeId } from './themes';
+
+/**
+ * Exibição do D-pad na tela
+ * - auto: só em telas de toque (pointer: coarse)
+ */
+export type DPadMode = 'auto' | 'on' | 'off';
+
+/**
+ * Idioma da interface
+ * - auto: o primeiro idioma suportado do navegador
+ */
+export type LocaleSetting = Locale | 'auto';
+
+export interface GamepadSettings {
+  enabled: boolean;
+  /** Raio (0..1) do centro do analógico que é ignorado */
+  deadZone: number;
+}
+
+/** Volumes de 0 a 1; o master multiplica os outros dois */
+export interface AudioSettings {
+  master: number;
+  sfx: number;
+  music: number;
+  /** Silencia tudo sem perder os volumes escolhidos */
+  muted: boolean;
+}
+
+export interface Settings {
+  dpad: DPadMode;
+  keyBindings: KeyBindings;
+  gamepad: GamepadSettings;
+  /** Mostrar a arena inteira em vez de seguir a cobra */
+  fitArena: boolean;
+  /** Mostrar o tempo de renderização sobre o canvas */
+  showFrameTime: boolean;
+  theme: ThemeId;
+  locale: LocaleSetting;
+  audio: AudioSettings;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  dpad: 'auto',
+  keyBindings: DEFAULT_KEY_BINDINGS,
+  gamepad: { enabled: true, deadZone: 0.3 },
+  fitArena: false,
+  showFrameTime: false,
+  theme: DEFAULT_THEME,
+  locale: 'auto',
+  audio: { master: 0.8, sfx: 0.8, music: 0.5, muted: false },
+};
+
+export const MIN_DEAD_ZONE = 0.05;
+export const MAX_DEAD_ZONE = 0.9;
+
+const DPAD_MODES: DPadMode[] = ['auto', 'on', 'off'];
+
+/**
+ * Converte o valor salvo; campos inválidos voltam ao padrão
+ */
+function parseSettings(raw: unknown): Settings {
+  const data = (raw ?? {}) as Partial<Record<keyof Settings, unknown>>;
+  return {
+    dpad: DPAD_MODES.includes(data.dpad as DPadMode) ? (data.dpad as DPadMode) : DEFAULT_SETTINGS.dpad,
+    keyBindings: parseKeyBindings(data.keyBindings),
+    gamepad: parseGamepad(data.gamepad),
+    fitArena: typeof data.fitArena === 'boolean' ? data.fitArena : DEFAULT_SETTINGS.fitArena,
+    showFrameTime: typeof data.showFrameTime === 'boolean' ? data.showFrameTime : DEFAULT_SETTINGS.showFrameTime,
+    theme: isThemeId(data.theme) ? data.theme : DEFAULT_SETTINGS.theme,
+    locale: data.locale === 'auto' || isLocale(data.locale) ? data.locale : DEFAULT_SETTINGS.locale,
+    audio: parseAudio(data.audio),
+  };
+}
+
+/**
+ * Ações ausentes ou inválidas voltam às teclas padrão
+ */
+function parseKeyBindings(raw: unknown): KeyBindings {
+  const data = (raw ?? {}) as Record<string, unknown>;
+  const bindings = { ...DEFAULT_KEY_BINDINGS };
+  INPUT_ACTIONS.forEach((action) => {
+    const keys = data[action];
+    if (Array.isArray(keys) && keys.every((key) => typeof key === 'string')) bindings[action] = keys;
+  });
+  return bindings;
+}
+
+function parseGamepad(raw: unknown): GamepadSettings {
+  const data = (raw ?? {}) as Partial<Record<keyof GamepadSettings, unknown>>;
+  const { gamepad } = DEFAULT_SETTINGS;
+  return {
+    enabled: typeof data.enabled === 'boolean' ? data.enabled : gamepad.enabled,
+    deadZone:
+      typeof data.deadZone === 'number'
+        ? Math.min(MAX_DEAD_ZONE, Math.max(MIN_DEAD_ZONE, data.deadZone))
+        : gamepad.deadZone,
+  };
+}
+
+/**
+ * Volumes fora de 0..1 são limitados; ausentes voltam ao padrão
+ */
+function parseAudio(raw: unknown): AudioSettings {
+  const data = (raw ?? {}) as Partial<Record<keyof AudioSettings, unknown>>;
+  const { audio } = DEFAULT_SETTINGS;
+  const volume = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+  return {
+    master: volume(data.master, audio.master),
+    sfx: volume(data.sfx, audio.sfx),
+    music: volume(data.music, audio.music),
+    muted: typeof data.muted === 'boolean' ? data.muted : audio.muted,
+  };
+}
+
+export const settingsStore = createStoredValue<Settings>('snake:settings', DEFAULT_SETTINGS, parseSettings);
+
+/**
+ * Altera parte das configurações salvas
+ */
+export function updateSettings(changes: Partial<Settings>): void {
+  settingsStore.set({ ...settingsStore.get(), ...changes });
+}
@@ -0,0 +1,179 @@
+/**
+ * Sons - O que tocar a cada mudança da partida e como cada som soa
+ *
+ * Responsabilidades:
+ * - Comparar dois GameStates e listar os sons do que mudou para o
+ *   jogador local: fruta comida, efeito pego, morte, início e fim
+ * - Descrever cada efeito sonoro como uma sequência de tons sintetizados
+ *   (sem arquivos de áudio)
+ * - Gerar as amostras da música de fundo, tocada em loop
+ *
+ * Padrão: Funções puras + dados estáticos
+ * - Sem Web Audio nem React; quem toca é o AudioEngine (audio.ts),
+ *   chamado pelo hook useGameAudio
+ * - O som de cada fruta e efeito vem do catálogo (catalog.ts)
+ *
+ * Como nos anúncios (announcements.ts), só a cobra local tem frutas,
+ * efeitos e morte sonorizados.
+ */
+
+import { effectInfo, fruitInfo } from './catalog';
+import type { GameState } from './protocol';
+import { eatenFruits, pickedEffects } from './results';
+
+export type SoundId =
+  | 'apple'
+  | 'mango'
+  | 'fruit'
+  | 'speedBoost'
+  | 'slowDown'
+  | 'effect'
+  | 'death'
+  | 'countdown'
+  | 'go'
+  | 'matchEnd';
+
+/**
+ * Um tom do efeito sonoro
+ */
+export interface Tone {
+  /** Frequência inicial (Hz) */
+  freq: number;
+  /** Frequência final; sem ela o tom é fixo */
+  to?: number;
+  /** Início em segundos, relativo ao começo do som */
+  at: number;
+  duration: number;
+  wave: OscillatorType;
+  /** Volume de pico (0..1) */
+  gain: number;
+}
+
+export const SOUNDS: Record<SoundId, Tone[]> = {
+  apple: [{ freq: 660, to: 880, at: 0, duration: 0.08, wave: 'square', gain: 0.2 }],
+  mango: [
+    { freq: 523, at: 0, duration: 0.08, wave: 'triangle', gain: 0.35 },
+    { freq: 784, at: 0.08, duration: 0.14, wave: 'triangle', gain: 0.35 },
+  ],
+  fruit: [{ freq: 600, at: 0, duration: 0.1, wave: 'sine', gain: 0.3 }],
+  speedBoost: [{ freq: 300, to: 1200, at: 0.05, duration: 0.25, wave: 'sawtooth', gain: 0.15 }],
+  slowDown: [{ freq: 600, to: 150, at: 0.05, duration: 0.35, wave: 'triangle', gain: 0.3 }],
+  effect: [{ freq: 440, to: 660, at: 0.05, duration: 0.2, wave: 'sine', gain: 0.3 }],
+  death: [
+    { freq: 220, to: 55, at: 0, duration: 0.6, wave: 'square', gain: 0.25 },
+    { freq: 110, to: 40, at: 0, duration: 0.6, wave: 'sine', gain: 0.3 },
+  ],
+  countdown: [{ freq: 440, at: 0, duration: 0.12, wave: 'sine', gain: 0.35 }],
+  go: [{ freq: 880, at: 0, duration: 0.3, wave: 'sine', gain: 0.35 }],
+  matchEnd: [523, 659, 784, 1047].map((freq, index) => ({
+    freq,
+    at: index * 0.12,
+    duration: index === 3 ? 0.4 : 0.12,
+    wave: 'triangle' as const,
+    gain: 0.3,
+  })),
+};
+
+/**
+ * Sons das mudanças entre dois estados
+ *
+ * A contagem regressiva não está aqui: ela não muda o GameState (ver
+ * useGameAudio).
+ *
+ * @param previous - Estado anterior (null no primeiro estado recebido)
+ * @param current - Estado novo
+ * @param playerId - Jogador local
+ * @returns Sons sem repetição, na ordem em que devem tocar
+ */
+export function soundsForChanges(
+  previous: GameState | null,
+  current: GameState,
+  playerId: string | null
+): SoundId[] {
+  const sounds: SoundId[] = [];
+
+  if (current.status === 'playing' && previous?.status !== 'playing') sounds.push('go');
+  if (!previous || previous.status !== 'playing') return sounds;
+
+  const own = current.snakes.find((snake) => snake.id === playerId);
+  const ownBefore = previous.snakes.find((snake) => snake.id === playerId);
+
+  if (own) {
+    eatenFruits(previous, current)
+      .filter(([eater]) => eater === playerId)
+      .forEach(([, type]) => sounds.push(fruitInfo(type).sound));
+
+    pickedEffects(ownBefore?.activeEffects ?? [], own.activeEffects).forEach((type) =>
+      sounds.push(effectInfo(type).sound)
+    );
+
+    if (ownBefore?.alive && !own.alive) sounds.push('death');
+  }
+
+  if (current.status === 'finished') sounds.push('matchEnd');
+
+  return [...new Set(sounds)];
+}
+
+/** Música: andamento e acordes (notas MIDI) de cada compasso */
+const MUSIC_BPM = 112;
+const MUSIC_CHORDS = [
+  [57, 60, 64], // Lá menor
+  [53, 57, 60], // Fá maior
+  [48, 52, 55], // Dó maior
+  [55, 59, 62], // Sol maior
+];
+
+function midiToFreq(note: number): number {
+  return 440 * 2 ** ((note - 69) / 12);
+}
+
+/**
+ * Soma uma nota às amostras, com ataque curto e decaimento até zero
+ * (o fim em zero evita estalos na emenda do loop)
+ */
+function addNote(
+  samples: Float32Array,
+  sampleRate: number,
+  freq: number,
+  start: number,
+  duration: number,
+  gain: number,
+  wave: 'sine' | 'square'
+) {
+  const first = Math.round(start * sampleRate);
+  const count = Math.min(Math.round(duration * sampleRate), samples.length - first);
+  const attack = 0.005 * sampleRate;
+
+  for (let i = 0; i < count; i++) {
+    const phase = (freq * i) / sampleRate;
+    const value = wave === 'square' ? (phase % 1 < 0.5 ? 1 : -1) : Math.sin(2 * Math.PI * phase);
+    const envelope = Math.min(1, i / attack) * Math.exp((-3 * i) / count) * (1 - i / count);
+    samples[first + i] += value * gain * envelope;
+  }
+}
+
+/**
+ * Amostras (mono) de um ciclo da música de fundo: baixo em colcheias e
+ * arpejo em semicolcheias sobre os acordes, um por compasso
+ *
+ * @param sampleRate - Taxa do AudioContext
+ */
+export function renderMusicLoop(sampleRate: number): Float32Array<ArrayBuffer> {
+  const beat = 60 / MUSIC_BPM;
+  const bar = beat * 4;
+  const samples = new Float32Array(Math.round(bar * MUSIC_CHORDS.length * sampleRate));
+
+  MUSIC_CHORDS.forEach((chord, index) => {
+    const barStart = index * bar;
+    for (let step = 0; step < 8; step++) {
+      addNote(samples, sampleRate, midiToFreq(chord[0] - 12), barStart + (step * beat) / 2, beat / 2, 0.25, 'sine');
+    }
+    for (let step = 0; step < 16; step++) {
+      const note = chord[step % chord.length] + 12;
+      addNote(samples, sampleRate, midiToFreq(note), barStart + (step * beat) / 4, beat / 4, 0.05, 'square');
+    }
+  });
+
+  return samples;
+}
@@ -0,0 +1,178 @@
+/**
+ * Estatísticas locais - Histórico de partidas e recordes pessoais
+ *
+ * Responsabilidades:
+ * - Persistir um registro por partida encerrada (localStorage)
+ * - Calcular recordes pessoais, médias e totais
+ *
+ * Padrão: External Store
+ * - O histórico é um StoredValue (storage.ts); a página de
+ *   estatísticas e o jogo leem com useStoredValue
+ *
+ * Um registro só é criado para partidas em que o jogador local tinha
+ * uma cobra; o ID é o recordedAt da gravação, o que evita duplicatas.
+ */
+
+import { EFFECT_TYPES, FRUIT_TYPES, countsByType } from './catalog';
+import type { EffectType, FruitType } from './protocol';
+import type { MatchResults } from './results';
+import { createStoredValue } from './storage';
+
+/** Partidas mantidas no histórico (as mais antigas são descartadas) */
+const MAX_MATCHES = 200;
+
+export interface MatchRecord {
+  /** recordedAt da gravação (ISO 8601), também usado como data */
+  id: string;
+  score: number;
+  placement: number;
+  playerCount: number;
+  maxLength: number;
+  /** Duração da partida */
+  durationMs: number;
+  /** Tempo vivo do jogador local */
+  survivalMs: number;
+  fruitsEaten: Record<FruitType, number>;
+  effectsPicked: Record<EffectType, number>;
+}
+
+export interface StatsSummary {
+  matches: number;
+  wins: number;
+  best: {
+    score: number;
+    maxLength: number;
+    survivalMs: number;
+  };
+  average: {
+    score: number;
+    placement: number;
+    survivalMs: number;
+  };
+  totals: {
+    fruitsEaten: Record<FruitType, number>;
+    effectsPicked: Record<EffectType, number>;
+  };
+}
+
+const count = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+/**
+ * Converte um registro salvo; registros sem ID são descartados
+ */
+function parseRecord(raw: unknown): MatchRecord | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const data = raw as Record<string, unknown>;
+  if (typeof data.id !== 'string') return null;
+
+  const fruits = (data.fruitsEaten ?? {}) as Record<string, unknown>;
+  const effects = (data.effectsPicked ?? {}) as Record<string, unknown>;
+  return {
+    id: data.id,
+    score: count(data.score),
+    placement: count(data.placement),
+    playerCount: count(data.playerCount),
+    maxLength: count(data.maxLength),
+    durationMs: count(data.durationMs),
+    survivalMs: count(data.survivalMs),
+    fruitsEaten: countsByType(FRUIT_TYPES, (type) => count(fruits[type])),
+    effectsPicked: countsByType(EFFECT_TYPES, (type) => count(effects[type])),
+  };
+}
+
+function parseHistory(raw: unknown): MatchRecord[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(parseRecord).filter((record): record is MatchRecord => record !== null);
+}
+
+/** Histórico de partidas, da mais antiga à mais recente */
+export const statsStore = createStoredValue<MatchRecord[]>('snake:stats', [], parseHistory);
+
+/**
+ * Cria o registro do jogador local a partir do resultado
+ *
+ * @param id - recordedAt da gravação
+ * @returns null se o jogador não participou da partida
+ */
+export function createMatchRecord(id: string, results: MatchResults, playerId: string | null): MatchRecord | null {
+  const own = results.ranking.find((player) => player.id === playerId);
+  if (!own) return null;
+
+  return {
+    id,
+    score: own.score,
+    placement: own.placement,
+    playerCount: results.ranking.length,
+    maxLength: own.maxLength,
+    durationMs: results.durationMs,
+    survivalMs: own.survivalMs,
+    fruitsEaten: { ...own.fruitsEaten },
+    effectsPicked: { ...own.effectsPicked },
+  };
+}
+
+/**
+ * Acrescenta uma partida ao histórico salvo, ignorando IDs repetidos
+ */
+export function saveMatch(record: MatchRecord): void {
+  const history = statsStore.get();
+  if (history.some((match) => match.id === record.id)) return;
+  statsStore.set([...history, record].slice(-MAX_MATCHES));
+}
+
+/**
+ * Maior pontuação do histórico
+ *
+ * @param excludeId - Partida ignorada (a que acabou de ser salva)
+ * @returns null sem partidas anteriores
+ */
+export function bestScore(history: MatchRecord[], excludeId?: string): number | null {
+  const scores = history.filter((match) => match.id !== excludeId).map((match) => match.score);
+  return scores.length > 0 ? Math.max(...scores) : null;
+}
+
+/**
+ * A pontuação é um novo recorde pessoal
+ * Sem partidas anteriores, qualquer pontuação acima de zero é recorde
+ *
+ * @param best - Melhor score anterior (bestScore), ou null
+ */
+export function isNewBest(score: number, best: number | null): boolean {
+  return best === null ? score > 0 : score > best;
+}
+
+/**
+ * Recordes, médias e totais do histórico
+ */
+export function summarizeStats(history: MatchRecord[]): StatsSummary {
+  const matches = history.length;
+  const sum = (pick: (match: MatchRecord) => number) => history.reduce((total, match) => total + pick(match), 0);
+  const max = (pick: (match: MatchRecord) => number) => history.reduce((best, match) => Math.max(best, pick(match)), 0);
+  const average = (pick: (match: MatchRecord) => number) => (matches > 0 ? sum(pick) / matches : 0);
+
+  return {
+    matches,
+    wins: history.filter((match) => match.placement === 1).length,
+    best: {
+      score: max((match) => match.score),
+      maxLength: max((match) => match.maxLength),
+      survivalMs: max((match) => match.survivalMs),
+    },
+    average: {
+      score: average((match) => match.score),
+      placement: average((match) => match.placement),
+      survivalMs: average((match) => match.survivalMs),
+    },
+    totals: {
+      fruitsEaten: countsByType(FRUIT_TYPES, (type) => sum((match) => match.fruitsEaten[type])),
+      effectsPicked: countsByType(EFFECT_TYPES, (type) => sum((match) => match.effectsPicked[type])),
+    },
+  };
+}
+
+/**
+ * Apaga o histórico salvo
+ */
+export function clearStats(): void {
+  statsStore.set([]);
+}
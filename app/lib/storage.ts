@@ -0,0 +1,93 @@
+/**
+ * Armazenamento local - Valores persistidos em localStorage
+ *
+ * Responsabilidades:
+ * - Ler e gravar valores JSON com fallback seguro
+ * - Notificar assinantes quando o valor muda (inclusive em outra aba)
+ *
+ * Padrão: External Store
+ * - Cada chave vira um store com subscribe/get/set
+ * - Componentes leem com useStoredValue (useSyncExternalStore)
+ * - No servidor (prerender) sempre vale o fallback
+ */
+
+import { useSyncExternalStore } from 'react';
+
+export interface StoredValue<T> {
+  get: () => T;
+  set: (value: T) => void;
+  subscribe: (listener: () => void) => () => void;
+  fallback: T;
+}
+
+/**
+ * Cria um store persistido
+ *
+ * @param key - Chave no localStorage
+ * @param fallback - Valor usado quando não há nada salvo ou o salvo é inválido
+ * @param parse - Converte o JSON salvo no tipo esperado (lança se inválido)
+ */
+export function createStoredValue<T>(key: string, fallback: T, parse: (raw: unknown) => T): StoredValue<T> {
+  const listeners = new Set<() => void>();
+  let cached: { raw: string | null; value: T } | null = null;
+
+  const read = (): T => {
+    if (typeof window === 'undefined') return fallback;
+
+    let raw: string | null = null;
+    try {
+      raw = window.localStorage.getItem(key);
+    } catch {
+      return fallback;
+    }
+
+    // Mesmo texto salvo → mesma referência (exigência do useSyncExternalStore)
+    if (cached && cached.raw === raw) return cached.value;
+
+    let value = fallback;
+    if (raw !== null) {
+      try {
+        value = parse(JSON.parse(raw));
+      } catch {
+        value = fallback;
+      }
+    }
+    cached = { raw, value };
+    return value;
+  };
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === key) notify();
+  };
+
+  return {
+    fallback,
+    get: read,
+    set: (value: T) => {
+      try {
+        window.localStorage.setItem(key, JSON.stringify(value));
+      } catch {
+        // Armazenamento cheio ou bloqueado (navegação privada): não persiste
+        return;
+      }
+      notify();
+    },
+    subscribe: (listener: () => void) => {
+      if (listeners.size === 0) window.addEventListener('storage', onStorage);
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) window.removeEventListener('storage', onStorage);
+      };
+    },
+  };
+}
+
+/**
+ * Lê um store persistido e re-renderiza quando ele muda
+ */
+export function useStoredValue<T>(store: StoredValue<T>): T {
+  return useSyncExternalStore(store.subscribe, store.get, () => store.fallback);
+}
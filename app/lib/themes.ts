@@ -0,0 +1,163 @@
+/**
+ * Temas - Paletas do canvas e da interface
+ *
+ * Responsabilidades:
+ * - Definir os temas embutidos (escuro, claro, daltonismo, alto contraste)
+ * - Cores do canvas (arena, cobras, textos, auras de efeito) e das partes
+ *   da interface desenhadas fora do Tailwind (barras de efeito, gráficos)
+ *
+ * Padrão: Dados estáticos
+ * - O nome de cada tema fica no catálogo de traduções (theme.<id>)
+ * - O tema escolhido fica em settingsStore (settings.ts)
+ * - GameCanvas e componentes leem com o hook useTheme
+ * - As classes Tailwind são remapeadas em globals.css pelo atributo
+ *   data-theme do <html> (ver ThemeRoot)
+ *
+ * Daltonismo: cores da paleta Okabe-Ito, distinguíveis com deuteranopia
+ * e protanopia (laranja para a própria cobra, azul para as outras).
+ */
+
+import { effectInfo, isEffectType } from './catalog';
+import type { EffectType } from './protocol';
+
+export type ThemeId = 'dark' | 'light' | 'colorblind' | 'highContrast';
+
+export interface CanvasPalette {
+  background: string;
+  grid: string;
+  /** Própria cobra sem cor escolhida */
+  playerSnake: string;
+  /** Outras cobras sem cor escolhida */
+  otherSnake: string;
+  food: string;
+  dead: string;
+  text: string;
+  /** Contorno dos textos sobre a arena */
+  textOutline: string;
+  highlight: string;
+  /** Fundo de minimapa e painéis desenhados no canvas */
+  overlay: string;
+}
+
+export interface Theme {
+  id: ThemeId;
+  canvas: CanvasPalette;
+  /** Usar as cores da paleta mesmo para cobras com cor escolhida */
+  ignoreCustomColors: boolean;
+  /** Troca o fundo da barra de tempo do efeito (sem entrada: cor do catálogo) */
+  effectBars: Partial<Record<EffectType, string>>;
+  /** Troca a cor da aura do efeito no canvas (sem entrada: cor do catálogo) */
+  effectAuras: Partial<Record<EffectType, string>>;
+  /** Linhas dos gráficos de estatísticas */
+  chart: { score: string; survival: string };
+}
+
+export const THEMES: Record<ThemeId, Theme> = {
+  dark: {
+    id: 'dark',
+    canvas: {
+      background: '#1a1a1a',
+      grid: '#444',
+      playerSnake: '#4CAF50',
+      otherSnake: '#2196F3',
+      food: '#FF9800',
+      dead: '#666',
+      text: '#FFF',
+      textOutline: 'rgba(0,0,0,0.7)',
+      highlight: '#FFEB3B',
+      overlay: 'rgba(0,0,0,0.7)',
+    },
+    ignoreCustomColors: false,
+    effectBars: {},
+    effectAuras: {},
+    chart: { score: '#22d3ee', survival: '#facc15' },
+  },
+  light: {
+    id: 'light',
+    canvas: {
+      background: '#f8fafc',
+      grid: '#cbd5e1',
+      playerSnake: '#2e7d32',
+      otherSnake: '#1565c0',
+      food: '#e65100',
+      dead: '#9e9e9e',
+      text: '#0f172a',
+      textOutline: 'rgba(255,255,255,0.85)',
+      highlight: '#f59e0b',
+      overlay: 'rgba(255,255,255,0.85)',
+    },
+    ignoreCustomColors: false,
+    effectBars: {
+      speedBoost: 'linear-gradient(to right, #ea580c, #ca8a04)',
+      slowDown: 'linear-gradient(to right, #9333ea, #4f46e5)',
+    },
+    effectAuras: { speedBoost: '#ea580c', slowDown: '#7c3aed' },
+    chart: { score: '#0e7490', survival: '#a16207' },
+  },
+  colorblind: {
+    id: 'colorblind',
+    canvas: {
+      background: '#1a1a1a',
+      grid: '#444',
+      playerSnake: '#E69F00',
+      otherSnake: '#56B4E9',
+      food: '#F0E442',
+      dead: '#777',
+      text: '#FFF',
+      textOutline: 'rgba(0,0,0,0.7)',
+      highlight: '#FFFFFF',
+      overlay: 'rgba(0,0,0,0.7)',
+    },
+    ignoreCustomColors: true,
+    effectBars: {
+      speedBoost: 'linear-gradient(to right, #E69F00, #F0E442)',
+      slowDown: 'linear-gradient(to right, #0072B2, #56B4E9)',
+    },
+    effectAuras: { speedBoost: '#E69F00', slowDown: '#56B4E9' },
+    chart: { score: '#56B4E9', survival: '#E69F00' },
+  },
+  highContrast: {
+    id: 'highContrast',
+    canvas: {
+      background: '#000000',
+      grid: '#5c5c5c',
+      playerSnake: '#00FF00',
+      otherSnake: '#00FFFF',
+      food: '#FFFF00',
+      dead: '#A0A0A0',
+      text: '#FFFFFF',
+      textOutline: '#000000',
+      highlight: '#FF00FF',
+      overlay: 'rgba(0,0,0,0.9)',
+    },
+    ignoreCustomColors: true,
+    effectBars: {
+      speedBoost: '#FFFF00',
+      slowDown: '#00FFFF',
+    },
+    effectAuras: { speedBoost: '#FFFF00', slowDown: '#00FFFF' },
+    chart: { score: '#00FFFF', survival: '#FFFF00' },
+  },
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+export const DEFAULT_THEME: ThemeId = 'dark';
+
+export function isThemeId(value: unknown): value is ThemeId {
+  return THEME_IDS.includes(value as ThemeId);
+}
+
+/**
+ * Fundo da barra de tempo de um efeito no tema
+ */
+export function effectBar(theme: Theme, type: string): string {
+  return (isEffectType(type) && theme.effectBars[type]) || effectInfo(type).barColor;
+}
+
+/**
+ * Cor da aura de um efeito no canvas
+ */
+export function effectAura(theme: Theme, type: string): string {
+  return (isEffectType(type) && theme.effectAuras[type]) || effectInfo(type).aura;
+}
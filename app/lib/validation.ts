@@ -0,0 +1,373 @@
+/**
+ * Validação - Verifica payloads do servidor em tempo de execução
+ *
+ * Responsabilidades:
+ * - Garantir que cada evento do servidor tem o formato definido em
+ *   protocol.ts antes de chegar ao estado do React
+ * - Descrever o primeiro campo inválido encontrado
+ *
+ * Padrão: Parse, don't validate
+ * - Cada parser recebe unknown e devolve o tipo do protocolo
+ * - Payload malformado lança ProtocolError com o caminho do campo
+ * - Tipos de fruta e efeito aceitam qualquer texto: um tipo novo do
+ *   servidor não derruba o estado (catalog.ts dá o fallback); o mesmo
+ *   vale para os emotes (chat.ts)
+ */
+
+import type {
+  ActiveEffect,
+  ChatMessage,
+  Fruit,
+  GameState,
+  GameStateDelta,
+  LobbyPlayer,
+  LobbyStatus,
+  MatchStarting,
+  PlayerEmote,
+  Point,
+  Pong,
+  RoomInfo,
+  ServerEvent,
+  ServerPayloads,
+  SessionInfo,
+  Snake,
+  SnakeDelta,
+} from './protocol';
+
+/**
+ * Erro de protocolo: payload do servidor fora do formato esperado
+ */
+export class ProtocolError extends Error {
+  constructor(
+    public readonly event: ServerEvent,
+    public readonly path: string,
+    reason: string
+  ) {
+    super(`${event}: ${path} ${reason}`);
+    this.name = 'ProtocolError';
+  }
+}
+
+const GAME_STATUSES = ['lobby', 'playing', 'finished'];
+
+/** Maior lado de arena aceito, em células (câmera, grade e minimapa dependem dele) */
+const MAX_ARENA_CELLS = 1000;
+
+/**
+ * Contexto de validação: evento e caminho do campo atual
+ */
+class Reader {
+  constructor(
+    private readonly event: ServerEvent,
+    private readonly path: string = '$'
+  ) {}
+
+  at(key: string | number): Reader {
+    const suffix = typeof key === 'number' ? `[${key}]` : `.${key}`;
+    return new Reader(this.event, this.path + suffix);
+  }
+
+  fail(reason: string): never {
+    throw new ProtocolError(this.event, this.path, reason);
+  }
+
+  object(value: unknown): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail('deveria ser um objeto');
+    }
+    return value as Record<string, unknown>;
+  }
+
+  array<T>(value: unknown, item: (value: unknown, reader: Reader) => T): T[] {
+    if (!Array.isArray(value)) this.fail('deveria ser uma lista');
+    return value.map((entry, index) => item(entry, this.at(index)));
+  }
+
+  number(value: unknown): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) this.fail('deveria ser um número');
+    return value;
+  }
+
+  /** Inteiro não negativo (quantidades, como segmentos removidos) */
+  count(value: unknown): number {
+    const count = this.number(value);
+    if (!Number.isInteger(count) || count < 0) this.fail('deveria ser um inteiro não negativo');
+    return count;
+  }
+
+  /** Lado da arena: inteiro de 1 a MAX_ARENA_CELLS */
+  arenaSize(value: unknown): number {
+    const size = this.count(value);
+    if (size < 1 || size > MAX_ARENA_CELLS) this.fail(`deveria estar entre 1 e ${MAX_ARENA_CELLS}`);
+    return size;
+  }
+
+  string(value: unknown): string {
+    if (typeof value !== 'string') this.fail('deveria ser um texto');
+    return value;
+  }
+
+  boolean(value: unknown): boolean {
+    if (typeof value !== 'boolean') this.fail('deveria ser booleano');
+    return value;
+  }
+
+  oneOf<T extends string>(value: unknown, options: readonly string[]): T {
+    if (typeof value !== 'string' || !options.includes(value)) {
+      this.fail(`deveria ser um de: ${options.join(', ')}`);
+    }
+    return value as T;
+  }
+
+  optional<T>(value: unknown, parse: (value: unknown) => T): T | undefined {
+    return value === undefined ? undefined : parse(value);
+  }
+}
+
+function readPoint(value: unknown, reader: Reader): Point {
+  const raw = reader.object(value);
+  return { x: reader.at('x').number(raw.x), y: reader.at('y').number(raw.y) };
+}
+
+function readEffect(value: unknown, reader: Reader): ActiveEffect {
+  const raw = reader.object(value);
+  return {
+    type: reader.at('type').string(raw.type),
+    endTime: reader.at('endTime').number(raw.endTime),
+  };
+}
+
+function readFruit(value: unknown, reader: Reader): Fruit {
+  const raw = reader.object(value);
+  return {
+    x: reader.at('x').number(raw.x),
+    y: reader.at('y').number(raw.y),
+    type: reader.at('type').string(raw.type),
+  };
+}
+
+function readSnake(value: unknown, reader: Reader): Snake {
+  const raw = reader.object(value);
+  return {
+    id: reader.at('id').string(raw.id),
+    body: reader.at('body').array(raw.body, readPoint),
+    alive: reader.at('alive').boolean(raw.alive),
+    score: reader.at('score').number(raw.score),
+    activeEffects: reader.at('activeEffects').array(raw.activeEffects ?? [], readEffect),
+    name: reader.optional(raw.name, (v) => reader.at('name').string(v)),
+    color: reader.optional(raw.color, (v) => reader.at('color').string(v)),
+  };
+}
+
+/**
+ * Jogador do lobby: servidores antigos enviam só o ID como texto
+ */
+function readLobbyPlayer(value: unknown, reader: Reader): LobbyPlayer {
+  if (typeof value === 'string') return { id: value };
+
+  const raw = reader.object(value);
+  return {
+    id: reader.at('id').string(raw.id),
+    name: reader.optional(raw.name, (v) => reader.at('name').string(v)),
+    color: reader.optional(raw.color, (v) => reader.at('color').string(v)),
+    ready: reader.optional(raw.ready, (v) => reader.at('ready').boolean(v)),
+  };
+}
+
+function readSnakeDelta(value: unknown, reader: Reader): SnakeDelta {
+  const raw = reader.object(value);
+  return {
+    id: reader.at('id').string(raw.id),
+    headAdded: reader.optional(raw.headAdded, (v) => reader.at('headAdded').array(v, readPoint)),
+    headRemoved: reader.optional(raw.headRemoved, (v) => reader.at('headRemoved').count(v)),
+    tailAdded: reader.optional(raw.tailAdded, (v) => reader.at('tailAdded').array(v, readPoint)),
+    tailRemoved: reader.optional(raw.tailRemoved, (v) => reader.at('tailRemoved').count(v)),
+    score: reader.optional(raw.score, (v) => reader.at('score').number(v)),
+    alive: reader.optional(raw.alive, (v) => reader.at('alive').boolean(v)),
+    activeEffects: reader.optional(raw.activeEffects, (v) =>
+      reader.at('activeEffects').array(v, readEffect)
+    ),
+  };
+}
+
+/**
+ * Valida o payload do evento gameState
+ */
+export function parseGameState(value: unknown): GameState {
+  const reader = new Reader('gameState');
+  const raw = reader.object(value);
+  return {
+    status: reader.at('status').oneOf(raw.status, GAME_STATUSES),
+    snakes: reader.at('snakes').array(raw.snakes, readSnake),
+    food: reader.at('food').array(raw.food ?? [], readFruit),
+    gameWidth: reader.at('gameWidth').arenaSize(raw.gameWidth),
+    gameHeight: reader.at('gameHeight').arenaSize(raw.gameHeight),
+    seq: reader.optional(raw.seq, (v) => reader.at('seq').number(v)),
+    roomId: reader.optional(raw.roomId, (v) => reader.at('roomId').string(v)),
+  };
+}
+
+/**
+ * Valida o payload do evento gameStateDelta
+ */
+export function parseGameStateDelta(value: unknown): GameStateDelta {
+  const reader = new Reader('gameStateDelta');
+  const raw = reader.object(value);
+  return {
+    seq: reader.at('seq').number(raw.seq),
+    status: reader.optional(raw.status, (v) => reader.at('status').oneOf(v, GAME_STATUSES)),
+    snakes: reader.optional(raw.snakes, (v) => reader.at('snakes').array(v, readSnakeDelta)),
+    snakesAdded: reader.optional(raw.snakesAdded, (v) => reader.at('snakesAdded').array(v, readSnake)),
+    snakesRemoved: reader.optional(raw.snakesRemoved, (v) =>
+      reader.at('snakesRemoved').array(v, (id, r) => r.string(id))
+    ),
+    fruitSpawned: reader.optional(raw.fruitSpawned, (v) => reader.at('fruitSpawned').array(v, readFruit)),
+    fruitDespawned: reader.optional(raw.fruitDespawned, (v) =>
+      reader.at('fruitDespawned').array(v, readPoint)
+    ),
+    roomId: reader.optional(raw.roomId, (v) => reader.at('roomId').string(v)),
+  };
+}
+
+/**
+ * Valida o payload do evento lobbyUpdate
+ */
+export function parseLobbyStatus(value: unknown): LobbyStatus {
+  const reader = new Reader('lobbyUpdate');
+  const raw = reader.object(value);
+  return {
+    status: reader.at('status').string(raw.status),
+    playerCount: reader.at('playerCount').number(raw.playerCount),
+    players: reader.at('players').array(raw.players ?? [], readLobbyPlayer),
+    roomId: reader.optional(raw.roomId, (v) => reader.at('roomId').string(v)),
+    hostId: reader.optional(raw.hostId, (v) => reader.at('hostId').string(v)),
+  };
+}
+
+function readRoom(value: unknown, reader: Reader): RoomInfo {
+  const raw = reader.object(value);
+  return {
+    id: reader.at('id').string(raw.id),
+    playerCount: reader.at('playerCount').number(raw.playerCount),
+    status: reader.at('status').oneOf(raw.status, GAME_STATUSES),
+  };
+}
+
+/**
+ * Valida o payload do evento roomJoined
+ */
+export function parseRoomJoined(value: unknown): { roomId: string } {
+  const reader = new Reader('roomJoined');
+  const raw = reader.object(value);
+  return { roomId: reader.at('roomId').string(raw.roomId) };
+}
+
+/**
+ * Valida o payload do evento roomList
+ */
+export function parseRoomList(value: unknown): RoomInfo[] {
+  return new Reader('roomList').array(value, readRoom);
+}
+
+/**
+ * Valida o payload do evento roomError
+ */
+export function parseRoomError(value: unknown): { message: string } {
+  const reader = new Reader('roomError');
+  const raw = reader.object(value);
+  return { message: reader.at('message').string(raw.message) };
+}
+
+/**
+ * Valida o payload do evento matchStarting
+ */
+export function parseMatchStarting(value: unknown): MatchStarting {
+  const reader = new Reader('matchStarting');
+  const raw = reader.object(value);
+  return {
+    startsAt: reader.at('startsAt').number(raw.startsAt),
+    roomId: reader.optional(raw.roomId, (v) => reader.at('roomId').string(v)),
+  };
+}
+
+/**
+ * Valida o payload do evento startFailed
+ */
+export function parseStartFailed(value: unknown): { reason: string; roomId?: string } {
+  const reader = new Reader('startFailed');
+  const raw = reader.object(value);
+  return {
+    reason: reader.at('reason').string(raw.reason),
+    roomId: reader.optional(raw.roomId, (v) => reader.at('roomId').string(v)),
+  };
+}
+
+/**
+ * Valida o payload do evento pong
+ */
+export function parsePong(value: unknown): Pong {
+  const reader = new Reader('pong');
+  const raw = reader.object(value);
+  return {
+    clientTime: reader.at('clientTime').number(raw.clientTime),
+    serverTime: reader.at('serverTime').number(raw.serverTime),
+  };
+}
+
+/**
+ * Valida o payload do evento session
+ */
+export function parseSession(value: unknown): SessionInfo {
+  const reader = new Reader('session');
+  const raw = reader.object(value);
+  return {
+    playerId: reader.at('playerId').string(raw.playerId),
+    resumed: reader.at('resumed').boolean(raw.resumed ?? false),
+  };
+}
+
+/**
+ * Valida o payload do evento chatMessage
+ */
+export function parseChatMessage(value: unknown): ChatMessage {
+  const reader = new Reader('chatMessage');
+  const raw = reader.object(value);
+  return {
+    id: reader.at('id').string(raw.id),
+    playerId: reader.at('playerId').string(raw.playerId),
+    name: reader.optional(raw.name, (v) => reader.at('name').string(v)),
+    text: reader.at('text').string(raw.text),
+    roomId: reader.optional(raw.roomId, (v) => reader.at('roomId').string(v)),
+  };
+}
+
+/**
+ * Valida o payload do evento emote
+ */
+export function parseEmote(value: unknown): PlayerEmote {
+  const reader = new Reader('emote');
+  const raw = reader.object(value);
+  return {
+    playerId: reader.at('playerId').string(raw.playerId),
+    emote: reader.at('emote').string(raw.emote),
+    roomId: reader.optional(raw.roomId, (v) => reader.at('roomId').string(v)),
+  };
+}
+
+/**
+ * Parsers indexados pelo nome do evento
+ */
+export const serverPayloadParsers: { [E in keyof ServerPayloads]: (value: unknown) => ServerPayloads[E] } = {
+  gameState: parseGameState,
+  gameStateDelta: parseGameStateDelta,
+  lobbyUpdate: parseLobbyStatus,
+  roomJoined: parseRoomJoined,
+  roomList: parseRoomList,
+  roomError: parseRoomError,
+  matchStarting: parseMatchStarting,
+  startFailed: parseStartFailed,
+  pong: parsePong,
+  session: parseSession,
+  chatMessage: parseChatMessage,
+  emote: parseEmote,
+};
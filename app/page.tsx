@@ -1,117 +1,272 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
-import { useWebSocket } from './hooks/useWebSocket';
+import React, { Suspense, useEffect, useState } from 'react';
+import { useGameSession } from './hooks/useGameSession';
+import { useMatchRecorder } from './hooks/useMatchRecorder';
+import { useRoomLink } from './hooks/useRoomLink';
 import Lobby from './components/Lobby';
 import { GameCanvas } from './components/GameCanvas';
+import { ReplayDownloadButton } from './components/ReplayDownloadButton';
+import { SpectatorView } from './components/SpectatorView';
+import { CountdownOverlay } from './components/CountdownOverlay';
+import { ResultsScreen } from './components/ResultsScreen';
+import { PersonalBestCallout } from './components/PersonalBestCallout';
+import { DPad } from './components/DPad';
+import { useCountdown } from './hooks/useCountdown';
+import { useDirectionInput } from './hooks/useDirectionInput';
+import { useMatchResults } from './hooks/useMatchResults';
+import { useGameAnnouncements } from './hooks/useGameAnnouncements';
+import { useGameAudio } from './hooks/useGameAudio';
+import { useI18n } from './hooks/useI18n';
+import { canStartMatch } from './lib/lobby';
 import { EffectIndicator } from './components/EffectIndicator';
+import { PingIndicator } from './components/PingIndicator';
+import { ReconnectingOverlay } from './components/ReconnectingOverlay';
+import { ChatOverlay } from './components/ChatOverlay';
 
 export default function Home() {
-  const { gameState, socket, isConnected, sendMove, playerId } = useWebSocket();
-  const [showGame, setShowGame] = useState(false);
-  const [lastKeyTime, setLastKeyTime] = useState(0);
-  const [activeEffect, setActiveEffect] = useState<{ type: 'speedBoost' | 'slowDown'; endTime: number } | null>(null);
+  // useRoomLink lê a URL (useSearchParams) e precisa de um Suspense acima
+  return (
+    <Suspense fallback={null}>
+      <HomeScreen />
+    </Suspense>
+  );
+}
 
-  // Quando o status for 'playing', mostra o jogo
-  useEffect(() => {
-    if (gameState?.status === 'playing') {
-      setShowGame(true);
+function HomeScreen() {
+  const {
+    gameState,
+    lobbyStatus,
+    isConnected,
+    connectionFailed,
+    isReconnecting,
+    reconnectAttempt,
+    retryConnection,
+    sendMove,
+    startGame,
+    setReady,
+    startsAt,
+    isStarting,
+    startError,
+    playerId,
+    lastDirection,
+    protocolError,
+    isOffline,
+    playOffline,
+    rooms,
+    chat,
+    clock,
+  } = useGameSession();
+  const replay = useMatchRecorder(gameState, playerId);
+  const { results, isPersonalBest, dismiss: dismissResults } = useMatchResults(
+    gameState,
+    replay.recording,
+    playerId
+  );
+  useGameAnnouncements(gameState, playerId, results);
+  const { t } = useI18n();
+  useRoomLink(rooms, isConnected);
+  const [leftMatch, setLeftMatch] = useState(false);
+  const [spectating, setSpectating] = useState(false);
+  const [seenStatus, setSeenStatus] = useState(gameState?.status);
+
+  const matchInProgress = gameState?.status === 'playing';
+  // Uma partida nova traz de volta quem saiu (ou assistiu) da anterior
+  if (gameState?.status !== seenStatus) {
+    setSeenStatus(gameState?.status);
+    if (matchInProgress) {
+      setLeftMatch(false);
+      setSpectating(false);
     }
-  }, [gameState?.status]);
+  }
+  // Quando o status for 'playing', mostra o jogo (até o jogador sair)
+  const showGame = matchInProgress && !leftMatch;
+  const ownSnake = gameState?.snakes.find((snake) => snake.id === playerId);
+  const isPlayerAlive = !!ownSnake?.alive;
+  const ownEffects = isPlayerAlive ? ownSnake.activeEffects : [];
+  const secondsLeft = useCountdown(startsAt, clock.serverNow);
+  const countingDown = secondsLeft > 0;
+  useGameAudio(gameState, playerId, secondsLeft);
+  // Início confirmado, aguardando a contagem ou o primeiro estado 'playing'
+  const matchStarting = startsAt !== null && !matchInProgress;
 
-  // Detecta quando o jogador morre
+  // Detecta quando o jogador morre e passa para o modo espectador
+  const diedInMatch = showGame && !!ownSnake && !ownSnake.alive;
   useEffect(() => {
-    if (!gameState || !playerId || !showGame) return;
+    if (!diedInMatch) return;
 
-    const playerSnake = gameState.snakes.find((snake) => snake.id === playerId);
+    const timer = setTimeout(() => setSpectating(true), 1000);
+    return () => clearTimeout(timer);
+  }, [diedInMatch]);
 
-    if (playerSnake && !playerSnake.alive) {
-      setTimeout(() => {
-        setShowGame(false);
-      }, 1000);
-    }
+  // Teclado, deslizes e D-pad passam pela fila de curvas; espectadores não
+  // enviam movimentos, e ninguém envia antes do fim da contagem regressiva
+  // nem sem conexão (a fila é descartada ao cair)
+  const canSteer = showGame && isPlayerAlive && !countingDown && isConnected;
+  const enqueueMove = useDirectionInput(sendMove, gameState, playerId, canSteer);
 
-    // Atualiza o efeito ativo do jogador
-    if (playerSnake?.alive && playerSnake.activeEffects.length > 0) {
-      const currentEffect = playerSnake.activeEffects[0];
-      setActiveEffect(currentEffect);
-    } else {
-      setActiveEffect(null);
-    }
-  }, [gameState?.snakes, gameState?.status, playerId, showGame]);
+  // Sai da tela de resultados para o lobby
+  const backToLobby = () => {
+    dismissResults();
+    setLeftMatch(true);
+    setSpectating(false);
+  };
 
-  // Capturar input de teclado durante o jogo
-  useEffect(() => {
-    if (!showGame) return;
-
-    const handleKeyDown = (event: KeyboardEvent) => {
-      const now = Date.now();
-      if (now - lastKeyTime < 50) return;
-
-      let direction: { dx: number; dy: number } | null = null;
-
-      switch (event.key.toLowerCase()) {
-        case 'arrowup':
-        case 'w':
-          direction = { dx: 0, dy: -1 };
-          break;
-        case 'arrowdown':
-        case 's':
-          direction = { dx: 0, dy: 1 };
-          break;
-        case 'arrowleft':
-        case 'a':
-          direction = { dx: -1, dy: 0 };
-          break;
-        case 'arrowright':
-        case 'd':
-          direction = { dx: 1, dy: 0 };
-          break;
-        default:
-          return;
-      }
-
-      if (direction) {
-        event.preventDefault();
-        sendMove(direction);
-        setLastKeyTime(now);
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [sendMove, lastKeyTime, showGame]);
-
-  // Loading
-  if (!isConnected) {
+  // Revanche: marca pronto e pede o início se já for permitido
+  const rematch = () => {
+    backToLobby();
+    if (!isOffline) setReady(true);
+    if (canStartMatch(lobbyStatus, playerId, true)) startGame();
+  };
+
+  // Queda depois de conectado: a tela atual fica, com o aviso por cima
+  const reconnectingOverlay = isReconnecting && (
+    <ReconnectingOverlay attempt={reconnectAttempt} onRetry={retryConnection} />
+  );
+
+  // Loading (primeira conexão)
+  if (!isConnected && !isReconnecting) {
     return (
       <div className="w-full h-screen bg-gray-900 flex items-center justify-center flex-col gap-4">
         <div className="animate-spin text-4xl">🐍</div>
-        <p className="text-gray-400">Conectando ao servidor...</p>
-        <p className="text-gray-600 text-sm">Certifique-se de que o backend está rodando em localhost:5000</p>
+        <p className="text-gray-400">{t('connection.connecting')}</p>
+        <p className="text-gray-600 text-sm">{t('connection.backendHint')}</p>
+        {connectionFailed && (
+          <div className="mt-4 flex gap-3">
+            <button
+              onClick={retryConnection}
+              className="py-3 px-6 rounded-lg font-bold bg-slate-600 text-white hover:bg-slate-500 active:scale-95 transition-all"
+            >
+              {t('connection.retry')}
+            </button>
+            <button
+              onClick={playOffline}
+              className="py-3 px-6 rounded-lg font-bold bg-cyan-500 text-white hover:bg-cyan-400 active:scale-95 transition-all"
+            >
+              {t('connection.playOffline')}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // Fim de partida: para quem morreu antes e para quem sobreviveu até o fim
+  if (results) {
+    return (
+      <>
+        <ResultsScreen
+          results={results}
+          playerId={playerId}
+          isPersonalBest={isPersonalBest}
+          onRematch={rematch}
+          onBackToLobby={backToLobby}
+        />
+        <ReplayDownloadButton
+          isRecording={replay.isRecording}
+          recording={replay.recording}
+          onDownload={replay.download}
+        />
+      </>
+    );
+  }
+
+  // Espectador: após morrer, por escolha no lobby, ou ao entrar no meio da partida
+  if (matchInProgress && (spectating || (showGame && !ownSnake))) {
+    return (
+      <div className="w-full min-h-screen bg-gray-900 flex items-center justify-center py-8">
+        <SpectatorView
+          gameState={gameState}
+          playerId={playerId}
+          serverNow={clock.serverNow}
+          onLeave={() => {
+            setSpectating(false);
+            setLeftMatch(true);
+          }}
+          emotes={chat?.emotes}
+        />
+        {chat && <ChatOverlay chat={chat} players={gameState.snakes} />}
+        {reconnectingOverlay}
       </div>
     );
   }
 
-  // Mostrar Lobby ou Jogo
-  if (!showGame) {
-    return <Lobby socket={socket} onGameStart={() => setShowGame(true)} />;
+  // Mostrar Lobby ou Jogo; a contagem confirmada pelo servidor já abre a arena
+  if (!showGame && !matchStarting) {
+    return (
+      <>
+        <Lobby
+          startGame={startGame}
+          lobbyStatus={lobbyStatus}
+          setReady={isOffline ? undefined : setReady}
+          isStarting={isStarting}
+          startError={startError}
+          onSpectate={matchInProgress ? () => setSpectating(true) : undefined}
+          rooms={rooms}
+          playerId={playerId}
+          chat={chat}
+        />
+        {reconnectingOverlay}
+        <ReplayDownloadButton
+          isRecording={replay.isRecording}
+          recording={replay.recording}
+          onDownload={replay.download}
+        />
+      </>
+    );
   }
 
   // Jogo
   return (
     <div className="w-full min-h-screen bg-gray-900 flex items-center justify-center py-8">
-      <div className="fixed top-4 right-4 text-sm bg-green-500 text-white px-4 py-2 rounded">
-        🟢 Conectado
+      <div className="fixed top-4 right-4 flex gap-2">
+        {!isOffline && isConnected && <PingIndicator rttMs={clock.rttMs} jitterMs={clock.jitterMs} />}
+        <div
+          className={`text-sm text-white px-4 py-2 rounded ${
+            isOffline ? 'bg-gray-600' : isConnected ? 'bg-green-500' : 'bg-yellow-600'
+          }`}
+        >
+          {isOffline
+            ? t('connection.offline')
+            : isConnected
+              ? t('connection.connected')
+              : t('connection.reconnectingBadge')}
+        </div>
       </div>
+      {reconnectingOverlay}
+
+      {/* Payload inválido do servidor: o último estado válido continua na tela
+          (centralizado, abaixo do aviso de recorde; embaixo fica o D-pad, à
+          direita a conexão e os efeitos) */}
+      {protocolError && (
+        <div className="fixed top-16 left-1/2 -translate-x-1/2 max-w-sm text-xs bg-yellow-600 text-white px-4 py-2 rounded z-40">
+          {t('connection.protocolError', { event: protocolError.event })}
+        </div>
+      )}
+
+      <ReplayDownloadButton
+        isRecording={replay.isRecording}
+        recording={replay.recording}
+        onDownload={replay.download}
+      />
+
+      {/* Efeitos ativos do jogador */}
+      <EffectIndicator effects={ownEffects} serverNow={clock.serverNow} />
 
-      {/* Indicador de Efeito */}
-      <EffectIndicator effect={activeEffect} />
+      <CountdownOverlay secondsLeft={secondsLeft} />
+      <PersonalBestCallout score={ownSnake?.score} />
+      {isPlayerAlive && !countingDown && <DPad onMove={enqueueMove} />}
+      {chat && <ChatOverlay chat={chat} players={gameState?.snakes ?? []} />}
 
       {gameState && gameState.status === 'playing' ? (
-        <GameCanvas gameState={gameState} playerId={playerId} />
+        <GameCanvas
+          gameState={gameState}
+          playerId={playerId}
+          predictedDirection={lastDirection}
+          emotes={chat?.emotes}
+        />
       ) : (
-        <p className="text-gray-400 animate-pulse">Carregando...</p>
+        !matchStarting && <p className="text-gray-400 animate-pulse">{t('game.loading')}</p>
       )}
     </div>
   );
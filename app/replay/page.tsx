@@ -0,0 +1,75 @@
+'use client';
+
+/**
+ * Página de Replay
+ *
+ * Responsabilidades:
+ * - Carregar um arquivo de replay exportado pelo jogo
+ * - Validar o arquivo e mostrar erros de formato
+ * - Reproduzir a partida com o ReplayViewer
+ */
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { ReplayViewer } from '../components/ReplayViewer';
+import { useI18n } from '../hooks/useI18n';
+import { MatchRecording, ReplayFormatError, parseRecording } from '../lib/replay';
+
+export default function Replay() {
+  const [recording, setRecording] = useState<MatchRecording | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<ReplayFormatError | null>(null);
+  const { t, locale } = useI18n();
+
+  /**
+   * Lê o arquivo escolhido e substitui o replay atual
+   */
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    // Ninguém aguarda este handler: todo erro (inclusive de leitura do
+    // arquivo) vira mensagem na página
+    try {
+      setRecording(parseRecording(await file.text()));
+      setFileName(file.name);
+      setError(null);
+    } catch (err) {
+      setError(
+        err instanceof ReplayFormatError
+          ? err
+          : new ReplayFormatError('replay.error.read', { detail: err instanceof Error ? err.message : String(err) })
+      );
+    }
+  };
+
+  return (
+    <div className="w-full h-screen overflow-auto bg-gray-900 flex flex-col items-center gap-6 py-8">
+      <div className="flex items-center gap-4">
+        <h1 className="text-3xl font-bold text-cyan-400">{t('replay.title')}</h1>
+        <Link href="/" className="text-sm text-gray-400 hover:text-white">
+          {t('common.backToGame')}
+        </Link>
+      </div>
+
+      <label className="py-3 px-6 rounded-lg font-bold bg-cyan-500 text-white hover:bg-cyan-400 cursor-pointer transition-all">
+        {t('replay.open')}
+        <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      </label>
+
+      {error && <p className="text-red-400 text-sm">⚠️ {t(error.key, error.params)}</p>}
+
+      {recording ? (
+        <>
+          <p className="text-gray-400 text-sm">
+            {t('replay.recordedAt', { file: fileName, date: new Date(recording.recordedAt).toLocaleString(locale) })}
+          </p>
+          {/* key reinicia o reprodutor a cada arquivo */}
+          <ReplayViewer key={`${fileName}-${recording.recordedAt}`} recording={recording} />
+        </>
+      ) : (
+        <p className="text-gray-500">{t('replay.none')}</p>
+      )}
+    </div>
+  );
+}
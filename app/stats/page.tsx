@@ -0,0 +1,149 @@
+'use client';
+
+/**
+ * Página de Estatísticas
+ *
+ * Responsabilidades:
+ * - Mostrar recordes pessoais, médias e totais do histórico local
+ * - Listar as partidas recentes
+ * - Desenhar a evolução de score e sobrevivência por partida
+ */
+
+import Link from 'next/link';
+import { StatsChart } from '../components/StatsChart';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme } from '../hooks/useTheme';
+import { EFFECTS, EFFECT_TYPES, FRUITS, FRUIT_TYPES } from '../lib/catalog';
+import { formatDuration } from '../lib/results';
+import { MatchRecord, clearStats, statsStore, summarizeStats } from '../lib/stats';
+import { useStoredValue } from '../lib/storage';
+
+/** Partidas na lista de recentes */
+const RECENT_COUNT = 15;
+
+/** Partidas nos gráficos */
+const CHART_COUNT = 50;
+
+/** Contagens por tipo com o emoji do catálogo ("🍎3 🥭1") */
+const fruitCounts = (counts: MatchRecord['fruitsEaten']) =>
+  FRUIT_TYPES.map((type) => `${FRUITS[type].emoji}${counts[type]}`).join(' ');
+
+const effectCounts = (counts: MatchRecord['effectsPicked']) =>
+  EFFECT_TYPES.map((type) => `${EFFECTS[type].emoji}${counts[type]}`).join(' ');
+
+export default function Stats() {
+  const history = useStoredValue(statsStore);
+  const theme = useTheme();
+  const { t, locale, formatNumber, formatOrdinal } = useI18n();
+  const summary = summarizeStats(history);
+  const recent = history.slice(-RECENT_COUNT).reverse();
+  const charted = history.slice(-CHART_COUNT);
+
+  const handleClear = () => {
+    if (window.confirm(t('stats.clearConfirm'))) clearStats();
+  };
+
+  return (
+    <div className="w-full h-screen overflow-auto bg-gray-900 flex flex-col items-center gap-6 py-8 px-4">
+      <div className="flex items-center gap-4">
+        <h1 className="text-3xl font-bold text-cyan-400">{t('stats.title')}</h1>
+        <Link href="/" className="text-sm text-gray-400 hover:text-white">
+          {t('common.backToGame')}
+        </Link>
+      </div>
+
+      {summary.matches === 0 ? (
+        <p className="text-gray-500">{t('stats.empty')}</p>
+      ) : (
+        <div className="w-full max-w-3xl flex flex-col gap-6">
+          {/* Recordes */}
+          <section className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <StatCard label={t('stats.bestScore')} value={formatNumber(summary.best.score)} />
+            <StatCard label={t('stats.bestLength')} value={formatNumber(summary.best.maxLength)} />
+            <StatCard label={t('stats.bestSurvival')} value={formatDuration(summary.best.survivalMs)} />
+            <StatCard
+              label={t('stats.wins')}
+              value={`${formatNumber(summary.wins)}/${formatNumber(summary.matches)}`}
+            />
+          </section>
+
+          {/* Médias e totais */}
+          <section className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <StatCard label={t('stats.averageScore')} value={formatNumber(summary.average.score, 1)} />
+            <StatCard label={t('stats.averagePlacement')} value={formatNumber(summary.average.placement, 1)} />
+            <StatCard label={t('stats.averageSurvival')} value={formatDuration(summary.average.survivalMs)} />
+            <StatCard
+              label={t('stats.fruitsAndEffects')}
+              value={fruitCounts(summary.totals.fruitsEaten)}
+              detail={effectCounts(summary.totals.effectsPicked)}
+            />
+          </section>
+
+          {/* Evolução */}
+          <section className="grid sm:grid-cols-2 gap-3">
+            <StatsChart
+              title={t('stats.scoreChart')}
+              values={charted.map((match) => match.score)}
+              color={theme.chart.score}
+              format={formatNumber}
+            />
+            <StatsChart
+              title={t('stats.survivalChart')}
+              values={charted.map((match) => match.survivalMs)}
+              color={theme.chart.survival}
+              format={formatDuration}
+            />
+          </section>
+
+          {/* Partidas recentes */}
+          <section className="bg-slate-800 rounded-lg p-4 border border-slate-600 overflow-x-auto">
+            <h2 className="text-cyan-400 font-bold mb-3">{t('stats.recent')}</h2>
+            <table className="w-full text-sm text-gray-200">
+              <thead>
+                <tr className="text-gray-400 text-xs text-left border-b border-slate-600">
+                  <th className="py-2 pr-2">{t('stats.date')}</th>
+                  <th className="py-2 pr-2 text-right">{t('stats.score')}</th>
+                  <th className="py-2 pr-2 text-right">{t('stats.placement')}</th>
+                  <th className="py-2 pr-2 text-right">{t('stats.duration')}</th>
+                  <th className="py-2 pr-2 text-right">{t('stats.fruits')}</th>
+                  <th className="py-2 text-right">{t('stats.effects')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recent.map((match) => (
+                  <tr key={match.id} className="border-b border-slate-700">
+                    <td className="py-2 pr-2">{new Date(match.id).toLocaleString(locale)}</td>
+                    <td className="py-2 pr-2 text-right font-bold">{formatNumber(match.score)}</td>
+                    <td className="py-2 pr-2 text-right">
+                      {formatOrdinal(match.placement)}/{match.playerCount}
+                    </td>
+                    <td className="py-2 pr-2 text-right">{formatDuration(match.durationMs)}</td>
+                    <td className="py-2 pr-2 text-right">{fruitCounts(match.fruitsEaten)}</td>
+                    <td className="py-2 text-right">{effectCounts(match.effectsPicked)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <button onClick={handleClear} className="self-center text-sm text-red-400 hover:text-red-300">
+            {t('stats.clear')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Cartão com um número em destaque
+ */
+function StatCard({ label, value, detail }: { label: string; value: string | number; detail?: string }) {
+  return (
+    <div className="bg-slate-800 rounded-lg p-4 border border-slate-600 text-center">
+      <p className="text-gray-400 text-xs mb-1">{label}</p>
+      <p className="text-white text-xl font-bold">{value}</p>
+      {detail && <p className="text-white text-xl font-bold">{detail}</p>}
+    </div>
+  );
+}